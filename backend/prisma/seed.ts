@@ -41,11 +41,11 @@ async function main() {
           lastName: 'Dubois',
           dateOfBirth: new Date('1998-05-15'),
           bio: 'Passionate about childcare with 3 years of experience. I love outdoor activities and teaching languages.',
-          languages: JSON.stringify(['French', 'English', 'Spanish']),
+          languages: JSON.stringify(['fr', 'en', 'es']),
           skills: JSON.stringify(['Childcare', 'Cooking', 'Swimming', 'First Aid']),
           experience: '3 years of experience working with children aged 2-12',
           education: 'Bachelor in Early Childhood Education',
-          preferredCountries: JSON.stringify(['USA', 'Canada', 'Australia']),
+          preferredCountries: JSON.stringify(['US', 'CA', 'AU']),
           hourlyRate: 15.0,
           currency: 'USD',
           availableFrom: new Date('2025-03-01'),
@@ -75,11 +75,11 @@ async function main() {
           contactPersonName: 'Sarah Johnson',
           bio: 'We are a loving family of four looking for a caring au pair to help with our children.',
           location: 'San Francisco, CA',
-          country: 'USA',
+          country: 'US',
           numberOfChildren: 2,
           childrenAges: JSON.stringify([5, 8]),
           requirements: 'Must be comfortable with pets, non-smoker preferred',
-          preferredLanguages: JSON.stringify(['English', 'French']),
+          preferredLanguages: JSON.stringify(['en', 'fr']),
           maxBudget: 20.0,
           currency: 'USD'
         }
@@ -0,0 +1,70 @@
+export interface PasswordPolicy {
+  minLength: number;
+  requireLetter: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+export interface AuthConfig {
+  // Block login until the user has confirmed their email address
+  requireEmailVerification: boolean;
+  // Mark new accounts as verified and skip the verification email (local development)
+  autoVerifyEmail: boolean;
+  passwordPolicy: PasswordPolicy;
+}
+
+const parseBoolean = (value: string | undefined, fallback: boolean): boolean => {
+  if (value === undefined || value === '') return fallback;
+  return ['true', '1', 'yes'].includes(value.toLowerCase());
+};
+
+// Production defaults are strict; development defaults keep local setup frictionless.
+// Every field can be overridden through the environment.
+export const loadAuthConfig = (env: NodeJS.ProcessEnv = process.env): AuthConfig => {
+  const isProduction = env.NODE_ENV === 'production';
+
+  return {
+    requireEmailVerification: parseBoolean(env.AUTH_REQUIRE_EMAIL_VERIFICATION, isProduction),
+    autoVerifyEmail: parseBoolean(env.AUTH_AUTO_VERIFY_EMAIL, !isProduction),
+    passwordPolicy: {
+      minLength: parseInt(env.PASSWORD_MIN_LENGTH as string) || (isProduction ? 8 : 6),
+      requireLetter: parseBoolean(env.PASSWORD_REQUIRE_LETTER, isProduction),
+      requireNumber: parseBoolean(env.PASSWORD_REQUIRE_NUMBER, isProduction),
+      requireSymbol: parseBoolean(env.PASSWORD_REQUIRE_SYMBOL, false)
+    }
+  };
+};
+
+let cachedConfig: AuthConfig | null = null;
+
+// Loaded on first use so values from .env are already in process.env
+export const getAuthConfig = (): AuthConfig => {
+  if (!cachedConfig) {
+    cachedConfig = loadAuthConfig();
+  }
+  return cachedConfig;
+};
+
+// Returns a human-readable error, or null if the password satisfies the policy
+export const validatePassword = (
+  password: string,
+  policy: PasswordPolicy = getAuthConfig().passwordPolicy
+): string | null => {
+  if (typeof password !== 'string' || password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters long`;
+  }
+
+  if (policy.requireLetter && !/[a-zA-Z]/.test(password)) {
+    return 'Password must contain at least one letter';
+  }
+
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    return 'Password must contain at least one number';
+  }
+
+  if (policy.requireSymbol && !/[^a-zA-Z0-9]/.test(password)) {
+    return 'Password must contain at least one symbol';
+  }
+
+  return null;
+};
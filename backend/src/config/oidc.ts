@@ -0,0 +1,56 @@
+export interface OidcProviderConfig {
+  name: string; // used in URLs, e.g. /api/auth/oidc/google/authorize
+  issuer: string; // discovery document is read from <issuer>/.well-known/openid-configuration
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string[];
+}
+
+// Providers are listed in OIDC_PROVIDERS (e.g. "google,apple") and each one is
+// configured with OIDC_<NAME>_ISSUER, OIDC_<NAME>_CLIENT_ID and optionally
+// OIDC_<NAME>_CLIENT_SECRET, OIDC_<NAME>_REDIRECT_URI and OIDC_<NAME>_SCOPES.
+export const loadOidcProviders = (env: NodeJS.ProcessEnv = process.env): OidcProviderConfig[] => {
+  const names = (env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const frontendUrl = env.FRONTEND_URL || 'http://localhost:3000';
+
+  return names.flatMap(name => {
+    const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const issuer = env[`${prefix}ISSUER`];
+    const clientId = env[`${prefix}CLIENT_ID`];
+
+    if (!issuer || !clientId) {
+      console.warn(`OIDC provider "${name}" is missing ${prefix}ISSUER or ${prefix}CLIENT_ID, skipping`);
+      return [];
+    }
+
+    return [{
+      name,
+      issuer: issuer.replace(/\/$/, ''),
+      clientId,
+      clientSecret: env[`${prefix}CLIENT_SECRET`],
+      redirectUri: env[`${prefix}REDIRECT_URI`] || `${frontendUrl}/auth/callback/${name}`,
+      scopes: (env[`${prefix}SCOPES`] || 'openid email profile').split(/[ ,]+/)
+    }];
+  });
+};
+
+let cachedProviders: OidcProviderConfig[] | null = null;
+
+export const getOidcProvider = (name: string): OidcProviderConfig | undefined => {
+  if (!cachedProviders) {
+    cachedProviders = loadOidcProviders();
+  }
+  return cachedProviders.find(provider => provider.name === name.toLowerCase());
+};
+
+export const listOidcProviders = (): string[] => {
+  if (!cachedProviders) {
+    cachedProviders = loadOidcProviders();
+  }
+  return cachedProviders.map(provider => provider.name);
+};
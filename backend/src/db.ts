@@ -0,0 +1,4 @@
+import { PrismaClient } from '@prisma/client';
+
+// Shared Prisma client; it connects on the first query
+export const prisma = new PrismaClient();
@@ -3,30 +3,29 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
-import { PrismaClient } from '@prisma/client';
+import { prisma } from './db';
+import { io } from './sockets/io';
 
 // Import routes
-import authRoutes from './routes/auth-simple';
-import userRoutes from './routes/users-simple';
-// import profileRoutes from './routes/profiles';
-// import matchRoutes from './routes/matches';
-// import messageRoutes from './routes/messages';
-// import documentRoutes from './routes/documents';
-// import bookingRoutes from './routes/bookings';
-// import adminRoutes from './routes/admin';
+import { apiRoutes } from './routes';
 
 // Import middleware
 import { authMiddleware } from './middleware/auth';
-// import { setupSocketHandlers } from './sockets/messageHandlers';
+import { startEmailWorker } from './utils/emailQueue';
+import { startDigestScheduler } from './utils/notificationDigest';
+import { startSavedSearchScheduler } from './utils/savedSearches';
+import { startMatchLifecycleScheduler } from './utils/matchLifecycle';
+import { startMatchIndexScheduler } from './utils/matchIndex';
+import { setupSocketHandlers } from './sockets/messageHandlers';
+import { buildOpenApiDocument, renderDocsPage } from './utils/openapi';
 
 // Load environment variables from .env file
 const path = require('path');
 require('dotenv').config({ path: path.join(__dirname, '../.env') });
 
-const app = express();
+export const app = express();
 const server = createServer(app);
-const io = new Server(server, {
+io.attach(server, {
   cors: {
     origin: process.env.FRONTEND_URL || "http://localhost:3000",
     methods: ["GET", "POST", "PUT", "DELETE"],
@@ -34,9 +33,6 @@ const io = new Server(server, {
   }
 });
 
-// Initialize Prisma
-export const prisma = new PrismaClient();
-
 // Middleware
 app.use(helmet());
 app.use(cors({
@@ -57,20 +53,37 @@ app.get('/api/health', (req, res) => {
 });
 
 // Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/users', userRoutes);
-// app.use('/api/profiles', profileRoutes);
-// app.use('/api/matches', matchRoutes);
-// app.use('/api/messages', messageRoutes);
-// app.use('/api/documents', documentRoutes);
-// app.use('/api/bookings', bookingRoutes);
-// app.use('/api/admin', adminRoutes);
+for (const { prefix, router, requiresAuth } of apiRoutes) {
+  if (requiresAuth) {
+    app.use(prefix, authMiddleware, router);
+  } else {
+    app.use(prefix, router);
+  }
+}
+
+// API docs
+const { version } = require('../package.json');
+const openApiDocument = buildOpenApiDocument(apiRoutes, { title: 'Au-pair API', version });
+
+app.get('/api/openapi.json', (req, res) => {
+  res.status(200).json(openApiDocument);
+});
+
+app.get('/api/docs', (req, res) => {
+  res.status(200).type('html').send(renderDocsPage(openApiDocument));
+});
 
 // Socket.io setup
-// setupSocketHandlers(io);
+setupSocketHandlers(io);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Malformed JSON gets the same shape as a failed schema check
+  if (err.type === 'entity.parse.failed') {
+    const message = 'Request body is not valid JSON';
+    return res.status(400).json({ message, errors: [{ location: 'body', field: 'body', message }] });
+  }
+
   console.error(err.stack);
   res.status(500).json({ message: 'Something went wrong!', error: err.message });
 });
@@ -82,20 +95,48 @@ app.use((req, res) => {
 
 const PORT = process.env.PORT || 3001;
 
-server.listen(PORT, () => {
-  console.log(`🚀 Au-pair backend server running on port ${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
-});
+// Stop functions of the background jobs started below
+const stopJobs: (() => void)[] = [];
 
-// Graceful shutdown
-process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  await prisma.$disconnect();
-  process.exit(0);
-});
+// Only start when run directly, so scripts can import the app and its routes
+if (require.main === module) {
+  server.listen(PORT, () => {
+    console.log(`🚀 Au-pair backend server running on port ${PORT}`);
+    console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
+
+    if (process.env.EMAIL_WORKER_ENABLED !== 'false') {
+      stopJobs.push(startEmailWorker());
+    }
+
+    if (process.env.DIGEST_SCHEDULER_ENABLED !== 'false') {
+      stopJobs.push(startDigestScheduler());
+    }
+
+    if (process.env.SAVED_SEARCH_SCHEDULER_ENABLED !== 'false') {
+      stopJobs.push(startSavedSearchScheduler());
+    }
+
+    if (process.env.MATCH_LIFECYCLE_SCHEDULER_ENABLED !== 'false') {
+      stopJobs.push(startMatchLifecycleScheduler());
+    }
 
-process.on('SIGINT', async () => {
-  console.log('SIGINT received, shutting down gracefully');
-  await prisma.$disconnect();
-  process.exit(0);
-});
\ No newline at end of file
+    if (process.env.MATCH_INDEX_SCHEDULER_ENABLED !== 'false') {
+      stopJobs.push(startMatchIndexScheduler());
+    }
+  });
+
+  // Graceful shutdown
+  process.on('SIGTERM', async () => {
+    console.log('SIGTERM received, shutting down gracefully');
+    stopJobs.forEach(stop => stop());
+    await prisma.$disconnect();
+    process.exit(0);
+  });
+
+  process.on('SIGINT', async () => {
+    console.log('SIGINT received, shutting down gracefully');
+    stopJobs.forEach(stop => stop());
+    await prisma.$disconnect();
+    process.exit(0);
+  });
+}
@@ -1,13 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { prisma } from '../index';
+import { prisma } from '../db';
 import { UserRole } from '@prisma/client';
+import { isSessionActive } from '../utils/sessions';
 
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     email: string;
     role: UserRole;
+    sessionId: string;
+    twoFactorEnabled: boolean;
   };
 }
 
@@ -23,17 +26,24 @@ export const authMiddleware = async (req: AuthRequest, res: Response, next: Next
     
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: { id: true, email: true, role: true, isActive: true }
+      select: { id: true, email: true, role: true, isActive: true, twoFactorEnabled: true }
     });
 
     if (!user || !user.isActive) {
       return res.status(401).json({ message: 'Invalid token or user deactivated.' });
     }
 
+    // Access tokens stay valid only as long as the session that issued them
+    if (!decoded.sid || !(await isSessionActive(decoded.sid, user.id))) {
+      return res.status(401).json({ message: 'Session expired or revoked.' });
+    }
+
     req.user = {
       id: user.id,
       email: user.email,
-      role: user.role
+      role: user.role,
+      sessionId: decoded.sid,
+      twoFactorEnabled: user.twoFactorEnabled
     };
 
     next();
@@ -42,8 +52,9 @@ export const authMiddleware = async (req: AuthRequest, res: Response, next: Next
   }
 };
 
+// The roles stay attached to the middleware so the API docs can list them
 export const roleMiddleware = (roles: UserRole[]) => {
-  return (req: AuthRequest, res: Response, next: NextFunction) => {
+  const middleware = (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ message: 'Access denied. Please authenticate.' });
     }
@@ -52,6 +63,16 @@ export const roleMiddleware = (roles: UserRole[]) => {
       return res.status(403).json({ message: 'Access denied. Insufficient permissions.' });
     }
 
+    // Admin accounts can't use privileged routes until they enroll in 2FA
+    if (req.user.role === 'ADMIN' && !req.user.twoFactorEnabled) {
+      return res.status(403).json({
+        message: 'Access denied. Two-factor authentication is required for admin accounts.',
+        twoFactorSetupRequired: true
+      });
+    }
+
     next();
   };
+
+  return Object.assign(middleware, { roles });
 };
\ No newline at end of file
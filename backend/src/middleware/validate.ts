@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { RouteSpec, RequestLocation, ValidationError, validateShape } from '../utils/validation';
+
+export interface ValidationMiddleware {
+  (req: Request, res: Response, next: NextFunction): void;
+  spec: RouteSpec;
+}
+
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'body'];
+
+// Check a route's params, query and body against its spec. Invalid requests get
+// a 400 listing every field error; valid ones continue with coerced values
+// (numbers, booleans and dates instead of strings). The spec stays attached to
+// the middleware so the OpenAPI document can be built from the mounted routes.
+// Every route has one, even when it takes no input.
+export const validate = (spec: RouteSpec): ValidationMiddleware => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const errors: ValidationError[] = [];
+
+    for (const location of LOCATIONS) {
+      const shape = spec[location];
+      if (!shape) continue;
+
+      const result = validateShape(req[location], shape, location);
+      errors.push(...result.errors);
+      if (result.errors.length === 0) {
+        req[location] = result.value!;
+      }
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({ message: errors[0].message, errors });
+    }
+
+    next();
+  };
+
+  return Object.assign(middleware, { spec });
+};
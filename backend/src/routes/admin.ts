@@ -1,14 +1,57 @@
 import express from 'express';
-import { prisma } from '../index';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
 import { AuthRequest, roleMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { validatePassword } from '../config/auth';
+import { getThrottleStore, accountKey, twoFactorKey, resetThrottle } from '../utils/loginThrottle';
+import { retryEmailJob } from '../utils/emailQueue';
+import { getJobStatuses } from '../utils/jobRunner';
+import { runMatchEvaluation } from '../utils/matchEvaluation';
+import { serializeMatch } from '../utils/matching';
+import { getActiveScoringConfig, serializeMatchingConfig } from '../utils/matchingConfig';
+import { field, messageResponse, paginationQuery, paginationResponse } from '../utils/validation';
+import {
+  DEFAULT_SCORING_CONFIG,
+  MATCH_FACTORS,
+  validateWeights,
+  validateThresholds,
+  normalizeThresholds
+} from '../utils/scoringConfig';
 
 const router = express.Router();
 
 // Apply admin role middleware to all routes
 router.use(roleMiddleware(['ADMIN']));
 
+const configVersionParams = {
+  version: field.integer({ min: 1 })
+};
+
+const scoringConfigResponse = field.object({
+  version: field.integer({ description: '0 is the built-in default config' }),
+  weights: field.object(Object.fromEntries(MATCH_FACTORS.map(factor => [factor, field.number()]))),
+  thresholds: field.any()
+});
+
+// Sums and cross-field rules are checked by validateWeights and validateThresholds
+const configBody = {
+  name: field.string({ optional: true, nullable: true, trim: true, maxLength: 100 }),
+  weights: field.object(
+    Object.fromEntries(MATCH_FACTORS.map(factor => [factor, field.number({ min: 0 })])),
+    { description: 'Relative weight per factor' }
+  ),
+  thresholds: field.any({ optional: true, description: 'Scoring thresholds; defaults to the built-in ones' })
+};
+
 // Get dashboard statistics
-router.get('/dashboard', async (req: AuthRequest, res) => {
+router.get('/dashboard', validate({
+  summary: 'Get dashboard statistics',
+  response: {
+    stats: field.any({ description: 'Counts of users, matches, bookings, documents and messages' }),
+    recentActivity: field.object({ users: field.array(field.ref('User')), matches: field.array(field.ref('Match')) })
+  }
+}), async (req: AuthRequest, res) => {
   try {
     const [
       totalUsers,
@@ -127,18 +170,23 @@ router.get('/dashboard', async (req: AuthRequest, res) => {
 });
 
 // Get all users with pagination and filters
-router.get('/users', async (req: AuthRequest, res) => {
+router.get('/users', validate({
+  summary: 'List users',
+  query: {
+    role: field.enum(['AU_PAIR', 'HOST_FAMILY', 'ADMIN'], { optional: true }),
+    status: field.enum(['active', 'inactive'], { optional: true }),
+    search: field.string({ optional: true, trim: true, maxLength: 254, description: 'Part of the email address' }),
+    ...paginationQuery()
+  },
+  response: { users: field.array(field.ref('User')), pagination: paginationResponse }
+}), async (req: AuthRequest, res) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const role = req.query.role as string;
-    const status = req.query.status as string;
-    const search = req.query.search as string;
+    const { page, limit, role, status, search } = req.query as Record<string, any>;
     const offset = (page - 1) * limit;
 
     const whereClause: any = {};
     
-    if (role && ['AU_PAIR', 'HOST_FAMILY', 'ADMIN'].includes(role)) {
+    if (role) {
       whereClause.role = role;
     }
     
@@ -196,15 +244,18 @@ router.get('/users', async (req: AuthRequest, res) => {
 });
 
 // Update user status
-router.put('/users/:userId/status', async (req: AuthRequest, res) => {
+router.put('/users/:userId/status', validate({
+  summary: 'Activate or deactivate a user',
+  body: {
+    isActive: field.boolean()
+  },
+  response: messageResponse({ user: field.ref('User') }),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
   try {
     const { userId } = req.params;
     const { isActive } = req.body;
 
-    if (typeof isActive !== 'boolean') {
-      return res.status(400).json({ message: 'isActive must be a boolean' });
-    }
-
     const user = await prisma.user.update({
       where: { id: userId },
       data: { isActive },
@@ -219,7 +270,7 @@ router.put('/users/:userId/status', async (req: AuthRequest, res) => {
     res.json({ message: 'User status updated successfully', user });
   } catch (error) {
     console.error('Update user status error:', error);
-    if (error.code === 'P2025') {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
       return res.status(404).json({ message: 'User not found' });
     }
     res.status(500).json({ message: 'Internal server error' });
@@ -227,17 +278,26 @@ router.put('/users/:userId/status', async (req: AuthRequest, res) => {
 });
 
 // Get all matches with filters
-router.get('/matches', async (req: AuthRequest, res) => {
+router.get('/matches', validate({
+  summary: 'List matches',
+  query: {
+    status: field.enum(['PENDING', 'APPROVED', 'REJECTED', 'EXPIRED'], { optional: true }),
+    configVersion: field.integer({ optional: true, min: 0, description: 'Scoring config version that scored the match' }),
+    ...paginationQuery()
+  },
+  response: { matches: field.array(field.ref('Match')), pagination: paginationResponse }
+}), async (req: AuthRequest, res) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const status = req.query.status as string;
+    const { page, limit, status, configVersion } = req.query as Record<string, any>;
     const offset = (page - 1) * limit;
 
     const whereClause: any = {};
-    if (status && ['PENDING', 'APPROVED', 'REJECTED'].includes(status)) {
+    if (status) {
       whereClause.status = status;
     }
+    if (configVersion !== undefined) {
+      whereClause.configVersion = configVersion;
+    }
 
     const matches = await prisma.match.findMany({
       where: whereClause,
@@ -269,7 +329,7 @@ router.get('/matches', async (req: AuthRequest, res) => {
     const totalCount = await prisma.match.count({ where: whereClause });
 
     res.json({
-      matches,
+      matches: matches.map(serializeMatch),
       pagination: {
         page,
         limit,
@@ -284,15 +344,20 @@ router.get('/matches', async (req: AuthRequest, res) => {
 });
 
 // Get all bookings with filters
-router.get('/bookings', async (req: AuthRequest, res) => {
+router.get('/bookings', validate({
+  summary: 'List bookings',
+  query: {
+    status: field.enum(['PENDING', 'APPROVED', 'REJECTED', 'COMPLETED', 'CANCELLED'], { optional: true }),
+    ...paginationQuery()
+  },
+  response: { bookings: field.array(field.ref('Booking')), pagination: paginationResponse }
+}), async (req: AuthRequest, res) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const status = req.query.status as string;
+    const { page, limit, status } = req.query as Record<string, any>;
     const offset = (page - 1) * limit;
 
     const whereClause: any = {};
-    if (status && ['PENDING', 'APPROVED', 'REJECTED', 'COMPLETED', 'CANCELLED'].includes(status)) {
+    if (status) {
       whereClause.status = status;
     }
 
@@ -341,7 +406,11 @@ router.get('/bookings', async (req: AuthRequest, res) => {
 });
 
 // Delete user (admin only)
-router.delete('/users/:userId', async (req: AuthRequest, res) => {
+router.delete('/users/:userId', validate({
+  summary: 'Delete a user',
+  response: messageResponse(),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
   try {
     const { userId } = req.params;
 
@@ -357,24 +426,479 @@ router.delete('/users/:userId', async (req: AuthRequest, res) => {
     res.json({ message: 'User deleted successfully' });
   } catch (error) {
     console.error('Delete user error:', error);
-    if (error.code === 'P2025') {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
       return res.status(404).json({ message: 'User not found' });
     }
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-// Create admin user
-router.post('/users/create-admin', async (req: AuthRequest, res) => {
+// List accounts (or IPs, with ?type=ip) currently locked out after failed logins
+router.get('/lockouts', validate({
+  summary: 'List login lockouts',
+  query: {
+    type: field.enum(['account', 'ip'], { optional: true, default: 'account' })
+  },
+  response: {
+    lockouts: field.array(field.object({ identifier: field.string(), failures: field.integer(), lockedUntil: field.date() }))
+  }
+}), async (req: AuthRequest, res) => {
   try {
-    const { email, password } = req.body;
+    const prefix = req.query.type === 'ip' ? 'ip:' : 'account:';
+
+    const entries = await getThrottleStore().listLocked(prefix);
+
+    const lockouts = entries.map(entry => ({
+      identifier: entry.key.slice(prefix.length),
+      failures: entry.failures,
+      lockedUntil: new Date(entry.lockedUntil!)
+    }));
+
+    res.json({ lockouts });
+  } catch (error) {
+    console.error('Get lockouts error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Clear the lockout of an account
+router.delete('/lockouts/:email', validate({
+  summary: 'Clear the lockout of an account',
+  response: messageResponse()
+}), async (req: AuthRequest, res) => {
+  try {
+    const { email } = req.params;
+
+    await resetThrottle(accountKey(email));
+
+    // Also clear any two-factor lockout for the same user
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      select: { id: true }
+    });
 
-    if (!email || !password) {
-      return res.status(400).json({ message: 'Email and password are required' });
+    if (user) {
+      await resetThrottle(twoFactorKey(user.id));
     }
 
-    if (password.length < 6) {
-      return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+    res.json({ message: 'Lockout cleared successfully' });
+  } catch (error) {
+    console.error('Clear lockout error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get queued emails, dead-lettered (FAILED) ones by default
+router.get('/emails', validate({
+  summary: 'List queued emails',
+  query: {
+    status: field.enum(['PENDING', 'PROCESSING', 'SENT', 'FAILED'], { optional: true, default: 'FAILED' }),
+    ...paginationQuery()
+  },
+  response: { emails: field.array(field.ref('EmailJob')), pagination: paginationResponse }
+}), async (req: AuthRequest, res) => {
+  try {
+    const { page, limit, status } = req.query as Record<string, any>;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = { status };
+
+    const emails = await prisma.emailJob.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        to: true,
+        template: true,
+        locale: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        nextAttemptAt: true,
+        lastError: true,
+        providerMessageId: true,
+        sentAt: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset
+    });
+
+    const totalCount = await prisma.emailJob.count({ where: whereClause });
+
+    res.json({
+      emails,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get admin emails error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Re-send a failed email
+router.post('/emails/:jobId/resend', validate({
+  summary: 'Re-send a failed email',
+  response: messageResponse({ email: field.object({ id: field.string(), status: field.ref('EmailJobStatus') }) }),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { jobId } = req.params;
+
+    const job = await prisma.emailJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, status: true }
+    });
+
+    if (!job) {
+      return res.status(404).json({ message: 'Email not found' });
+    }
+
+    if (job.status === 'PENDING' || job.status === 'PROCESSING') {
+      return res.status(400).json({ message: 'Email is already queued' });
+    }
+
+    const email = await retryEmailJob(jobId);
+
+    res.json({ message: 'Email queued for re-sending', email: { id: email.id, status: email.status } });
+  } catch (error) {
+    console.error('Resend email error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Background jobs running in this process and how their last run went
+router.get('/jobs', validate({
+  summary: 'List background jobs',
+  response: {
+    jobs: field.array(field.object({
+      name: field.string(),
+      intervalMs: field.integer(),
+      running: field.boolean(),
+      lastStartedAt: field.date({ nullable: true }),
+      lastFinishedAt: field.date({ nullable: true }),
+      lastError: field.string({ nullable: true })
+    }))
+  }
+}), async (req: AuthRequest, res) => {
+  try {
+    res.json({ jobs: getJobStatuses() });
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// List matching configs with match outcomes per version
+router.get('/matching-configs', validate({
+  summary: 'List matching configs',
+  response: {
+    configs: field.array(field.ref('MatchingConfig')),
+    defaultConfig: scoringConfigResponse,
+    outcomes: field.any({ description: 'Match count and average score per config version and status' })
+  }
+}), async (req: AuthRequest, res) => {
+  try {
+    const [configs, outcomes] = await Promise.all([
+      prisma.matchingConfig.findMany({ orderBy: { version: 'desc' } }),
+      prisma.match.groupBy({
+        by: ['configVersion', 'status'],
+        _count: { _all: true },
+        _avg: { matchScore: true }
+      })
+    ]);
+
+    // { [version]: { PENDING: { count, averageScore }, ... } }
+    const outcomesByVersion: Record<string, Record<string, { count: number; averageScore: number | null }>> = {};
+    for (const outcome of outcomes) {
+      const version = String(outcome.configVersion ?? 'unversioned');
+      outcomesByVersion[version] = outcomesByVersion[version] || {};
+      outcomesByVersion[version][outcome.status] = {
+        count: outcome._count._all,
+        averageScore: outcome._avg.matchScore
+      };
+    }
+
+    res.json({
+      configs: configs.map(serializeMatchingConfig),
+      defaultConfig: DEFAULT_SCORING_CONFIG,
+      outcomes: outcomesByVersion
+    });
+  } catch (error) {
+    console.error('Get matching configs error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get the scoring config currently used for matching
+router.get('/matching-configs/active', validate({
+  summary: 'Get the active matching config',
+  response: { config: scoringConfigResponse }
+}), async (req: AuthRequest, res) => {
+  try {
+    const config = await getActiveScoringConfig();
+
+    res.json({ config });
+  } catch (error) {
+    console.error('Get active matching config error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Replay approved/rejected matches against a config (?version=, defaults to the active one)
+// and report precision and ranking metrics. With ?learn=true, also propose weights learned
+// from the outcomes; they can be saved with POST /matching-configs.
+router.get('/matching-configs/evaluation', validate({
+  summary: 'Evaluate a matching config against past matches',
+  description: 'Replays approved and rejected matches. With learn=true the report also proposes learned weights.',
+  query: {
+    version: field.integer({ optional: true, min: 0, description: '0 is the built-in default config' }),
+    threshold: field.number({ optional: true, min: 0, max: 100 }),
+    since: field.date({ optional: true }),
+    learn: field.boolean({ optional: true })
+  },
+  response: field.any({ description: 'Precision, recall, AUC and per-factor scores' }),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { version, threshold, since, learn } = req.query as Record<string, any>;
+
+    const report = await runMatchEvaluation(prisma, {
+      version,
+      threshold,
+      since,
+      learn: learn === true
+    });
+
+    if (!report) {
+      return res.status(404).json({ message: 'Matching config not found' });
+    }
+
+    res.json(report);
+  } catch (error) {
+    console.error('Evaluate matching config error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Create a new config version (thresholds default to the built-in ones)
+router.post('/matching-configs', validate({
+  summary: 'Create a matching config version',
+  body: {
+    ...configBody,
+    activate: field.boolean({ optional: true })
+  },
+  status: 201,
+  response: messageResponse({ config: field.ref('MatchingConfig') }),
+  errors: [409]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { name, weights, thresholds = DEFAULT_SCORING_CONFIG.thresholds, activate } = req.body;
+
+    const validationError = validateWeights(weights) || validateThresholds(thresholds);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const latest = await prisma.matchingConfig.findFirst({
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    const config = await prisma.$transaction(async (tx) => {
+      if (activate) {
+        await tx.matchingConfig.updateMany({
+          where: { isActive: true },
+          data: { isActive: false }
+        });
+      }
+
+      return tx.matchingConfig.create({
+        data: {
+          version: (latest?.version ?? 0) + 1,
+          name,
+          weights: JSON.stringify(weights),
+          thresholds: JSON.stringify(normalizeThresholds(thresholds)),
+          isActive: !!activate,
+          activatedAt: activate ? new Date() : null,
+          createdBy: req.user!.id
+        }
+      });
+    });
+
+    res.status(201).json({ message: 'Matching config created successfully', config: serializeMatchingConfig(config) });
+  } catch (error: any) {
+    console.error('Create matching config error:', error);
+    if (error.code === 'P2002') {
+      return res.status(409).json({ message: 'Another config was created at the same time, please retry' });
+    }
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Update a config version that hasn't scored any matches yet
+router.put('/matching-configs/:version', validate({
+  summary: 'Update an unused matching config',
+  description: 'Candidates scored with this version are rescored when its weights or thresholds change.',
+  params: configVersionParams,
+  body: {
+    ...configBody,
+    weights: { ...configBody.weights, optional: true }
+  },
+  response: messageResponse({ config: field.ref('MatchingConfig') }),
+  errors: [404, 409]
+}), async (req: AuthRequest, res) => {
+  try {
+    const version = Number(req.params.version);
+    const { name, weights, thresholds } = req.body;
+
+    const config = await prisma.matchingConfig.findUnique({ where: { version } });
+    if (!config) {
+      return res.status(404).json({ message: 'Matching config not found' });
+    }
+
+    const updateData: any = {};
+    if (name !== undefined) {
+      updateData.name = name;
+    }
+
+    if (weights !== undefined || thresholds !== undefined) {
+      // Scored matches must keep pointing at the weights that produced them
+      const usedBy = await prisma.match.count({ where: { configVersion: version } });
+      if (usedBy > 0) {
+        return res.status(409).json({
+          message: 'This version has already scored matches. Create a new version instead.'
+        });
+      }
+
+      const validationError = (weights !== undefined && validateWeights(weights)) ||
+        (thresholds !== undefined && validateThresholds(thresholds));
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      if (weights !== undefined) updateData.weights = JSON.stringify(weights);
+      if (thresholds !== undefined) updateData.thresholds = JSON.stringify(normalizeThresholds(thresholds));
+    }
+
+    const updatedConfig = await prisma.matchingConfig.update({
+      where: { version },
+      data: updateData
+    });
+
+    res.json({ message: 'Matching config updated successfully', config: serializeMatchingConfig(updatedConfig) });
+  } catch (error) {
+    console.error('Update matching config error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Make a config version the one used for scoring
+router.post('/matching-configs/:version/activate', validate({
+  summary: 'Activate a matching config',
+  description: 'Existing candidates are rescored with it.',
+  params: configVersionParams,
+  response: messageResponse({ config: field.ref('MatchingConfig') }),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const version = Number(req.params.version);
+
+    const config = await prisma.matchingConfig.findUnique({ where: { version } });
+    if (!config) {
+      return res.status(404).json({ message: 'Matching config not found' });
+    }
+
+    const [, activatedConfig] = await prisma.$transaction([
+      prisma.matchingConfig.updateMany({
+        where: { isActive: true },
+        data: { isActive: false }
+      }),
+      prisma.matchingConfig.update({
+        where: { version },
+        data: { isActive: true, activatedAt: new Date() }
+      })
+    ]);
+
+    res.json({ message: 'Matching config activated successfully', config: serializeMatchingConfig(activatedConfig) });
+  } catch (error) {
+    console.error('Activate matching config error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Go back to the built-in default weights
+router.post('/matching-configs/deactivate', validate({
+  summary: 'Go back to the default matching config',
+  response: messageResponse({ config: scoringConfigResponse })
+}), async (req: AuthRequest, res) => {
+  try {
+    await prisma.matchingConfig.updateMany({
+      where: { isActive: true },
+      data: { isActive: false }
+    });
+
+    res.json({ message: 'Default matching config restored', config: DEFAULT_SCORING_CONFIG });
+  } catch (error) {
+    console.error('Deactivate matching config error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete an unused, inactive config version
+router.delete('/matching-configs/:version', validate({
+  summary: 'Delete an unused matching config',
+  params: configVersionParams,
+  response: messageResponse(),
+  errors: [404, 409]
+}), async (req: AuthRequest, res) => {
+  try {
+    const version = Number(req.params.version);
+
+    const config = await prisma.matchingConfig.findUnique({ where: { version } });
+    if (!config) {
+      return res.status(404).json({ message: 'Matching config not found' });
+    }
+
+    if (config.isActive) {
+      return res.status(400).json({ message: 'Cannot delete the active matching config' });
+    }
+
+    const usedBy = await prisma.match.count({ where: { configVersion: version } });
+    if (usedBy > 0) {
+      return res.status(409).json({ message: 'This version has already scored matches and is kept for comparison' });
+    }
+
+    await prisma.matchingConfig.delete({ where: { version } });
+
+    res.json({ message: 'Matching config deleted successfully' });
+  } catch (error) {
+    console.error('Delete matching config error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Create admin user
+router.post('/users/create-admin', validate({
+  summary: 'Create an admin user',
+  body: {
+    email: field.string({ trim: true, format: 'email', maxLength: 254 }),
+    password: field.string({ maxLength: 200 })
+  },
+  status: 201,
+  response: messageResponse({ user: field.ref('User') })
+}), async (req: AuthRequest, res) => {
+  try {
+    const { email, password } = req.body;
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ message: passwordError });
     }
 
     // Check if user already exists
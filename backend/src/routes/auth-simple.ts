@@ -1,110 +0,0 @@
-import express, { Request, Response } from 'express';
-import bcrypt from 'bcryptjs';
-import { prisma } from '../index';
-import { generateAccessToken, generateRefreshToken } from '../utils/jwt';
-
-const router = express.Router();
-
-// Simple register endpoint
-router.post('/register', async (req: Request, res: Response) => {
-  try {
-    const { email, password, role } = req.body;
-
-    // Basic validation
-    if (!email || !password || !role) {
-      return res.status(400).json({ message: 'Email, password, and role are required' });
-    }
-
-    if (!['AU_PAIR', 'HOST_FAMILY'].includes(role)) {
-      return res.status(400).json({ message: 'Invalid role. Must be AU_PAIR or HOST_FAMILY' });
-    }
-
-    // Check if user exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email }
-    });
-
-    if (existingUser) {
-      return res.status(400).json({ message: 'User already exists' });
-    }
-
-    // Hash password
-    const hashedPassword = await bcrypt.hash(password, 12);
-
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        role,
-        isEmailVerified: true // Skip email verification for now
-      }
-    });
-
-    // Generate tokens
-    const accessToken = generateAccessToken(user.id);
-    const refreshToken = generateRefreshToken(user.id);
-
-    res.status(201).json({
-      message: 'User registered successfully',
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role
-      },
-      accessToken,
-      refreshToken
-    });
-
-  } catch (error) {
-    console.error('Register error:', error);
-    res.status(500).json({ message: 'Internal server error' });
-  }
-});
-
-// Simple login endpoint
-router.post('/login', async (req: Request, res: Response) => {
-  try {
-    const { email, password } = req.body;
-
-    if (!email || !password) {
-      return res.status(400).json({ message: 'Email and password are required' });
-    }
-
-    // Find user
-    const user = await prisma.user.findUnique({
-      where: { email }
-    });
-
-    if (!user) {
-      return res.status(401).json({ message: 'Invalid credentials' });
-    }
-
-    // Check password
-    const isValidPassword = await bcrypt.compare(password, user.password);
-    if (!isValidPassword) {
-      return res.status(401).json({ message: 'Invalid credentials' });
-    }
-
-    // Generate tokens
-    const accessToken = generateAccessToken(user.id);
-    const refreshToken = generateRefreshToken(user.id);
-
-    res.json({
-      message: 'Login successful',
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role
-      },
-      accessToken,
-      refreshToken
-    });
-
-  } catch (error) {
-    console.error('Login error:', error);
-    res.status(500).json({ message: 'Internal server error' });
-  }
-});
-
-export default router;
\ No newline at end of file
@@ -1,29 +1,128 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
-import { prisma } from '../index';
-import { generateAccessToken, generateRefreshToken, verifyRefreshToken } from '../utils/jwt';
-import { sendVerificationEmail, sendPasswordResetEmail } from '../utils/email';
+import { prisma } from '../db';
+import { createSession, rotateSession, revokeSession, revokeAllSessions } from '../utils/sessions';
+import { generateTwoFactorChallengeToken, verifyTwoFactorChallengeToken } from '../utils/jwt';
+import {
+  generateTwoFactorSecret,
+  verifyTotpCode,
+  generateRecoveryCodes,
+  consumeRecoveryCode
+} from '../utils/twoFactor';
+import { frontendUrl } from '../utils/email';
+import { enqueueEmail } from '../utils/emailQueue';
+import { resolveLocale } from '../utils/emailTemplates';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { field, messageResponse } from '../utils/validation';
+import { getAuthConfig, validatePassword } from '../config/auth';
+import { loginProfileInclude, loginResponse, stripSensitiveFields } from '../utils/users';
+import {
+  THROTTLE_POLICIES,
+  accountKey,
+  ipKey,
+  twoFactorKey,
+  getRetryAfter,
+  registerFailure,
+  resetThrottle
+} from '../utils/loginThrottle';
 
 const router = express.Router();
 
-// Register
-router.post('/register', async (req, res) => {
-  try {
-    const { email, password, role } = req.body;
+// Password strength is checked by validatePassword, which follows the configured policy
+const passwordField = field.string({ maxLength: 200 });
+const emailField = field.string({ trim: true, format: 'email', maxLength: 254 });
+const tokenField = field.string({ maxLength: 500 });
+const twoFactorCodeField = field.string({ optional: true, maxLength: 20, description: 'TOTP code from the authenticator app' });
+const recoveryCodeField = field.string({ optional: true, maxLength: 50, description: 'Single-use recovery code, instead of a TOTP code' });
 
-    // Validation
-    if (!email || !password || !role) {
-      return res.status(400).json({ message: 'Email, password, and role are required' });
-    }
+const sendTooManyAttempts = (res: express.Response, retryAfter: number) => {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ message: 'Too many attempts. Please try again later.', retryAfter });
+};
 
-    if (!['AU_PAIR', 'HOST_FAMILY'].includes(role)) {
-      return res.status(400).json({ message: 'Invalid role. Must be AU_PAIR or HOST_FAMILY' });
-    }
+// Confirm the current password of a logged-in user. Failures count towards the same
+// lockout as /login, so a stolen access token can't be used to guess the password.
+// Sends the 401 or 429 itself and returns false if the password wasn't accepted.
+const checkCurrentPassword = async (
+  res: express.Response,
+  user: { email: string; password: string },
+  password: string
+): Promise<boolean> => {
+  const key = accountKey(user.email);
+
+  const retryAfter = await getRetryAfter([key]);
+  if (retryAfter > 0) {
+    sendTooManyAttempts(res, retryAfter);
+    return false;
+  }
+
+  if (!(await bcrypt.compare(password, user.password))) {
+    await registerFailure(key, THROTTLE_POLICIES.account);
+    res.status(401).json({ message: 'Current password is incorrect' });
+    return false;
+  }
+
+  await resetThrottle(key);
+  return true;
+};
+
+// Check a TOTP code, or fall back to a single-use recovery code
+const verifySecondFactor = async (
+  user: { id: string; twoFactorSecret: string | null; twoFactorRecoveryCodes: string | null },
+  code?: string,
+  recoveryCode?: string
+): Promise<boolean> => {
+  if (code && user.twoFactorSecret) {
+    const step = verifyTotpCode(user.twoFactorSecret, code);
+    if (step === null) return false;
+
+    // Conditional so a code replayed later, or sent twice at once, is only accepted once
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }] },
+      data: { twoFactorLastStep: step }
+    });
+    return count > 0;
+  }
+
+  if (recoveryCode) {
+    const remainingCodes = consumeRecoveryCode(user.twoFactorRecoveryCodes, recoveryCode);
+    if (remainingCodes === null) return false;
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorRecoveryCodes: remainingCodes }
+    });
+    return true;
+  }
+
+  return false;
+};
+
+// Register
+router.post('/register', validate({
+  summary: 'Register',
+  description: 'Tokens are left out while the email still has to be verified before logging in.',
+  body: {
+    email: emailField,
+    password: passwordField,
+    role: field.enum(['AU_PAIR', 'HOST_FAMILY']),
+    locale: field.string({ optional: true, maxLength: 20, description: 'Email language, e.g. "de"' })
+  },
+  status: 201,
+  response: messageResponse({
+    user: field.ref('User'),
+    accessToken: field.string({ optional: true }),
+    refreshToken: field.string({ optional: true })
+  })
+}), async (req, res) => {
+  try {
+    const { email, password, role, locale } = req.body;
 
-    if (password.length < 6) {
-      return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ message: passwordError });
     }
 
     // Check if user already exists
@@ -39,8 +138,10 @@ router.post('/register', async (req, res) => {
     const saltRounds = 12;
     const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-    // Generate email verification token
-    const emailVerifyToken = crypto.randomBytes(32).toString('hex');
+    const { autoVerifyEmail } = getAuthConfig();
+
+    // Generate email verification token (not needed when accounts are auto-verified)
+    const emailVerifyToken = autoVerifyEmail ? null : crypto.randomBytes(32).toString('hex');
 
     // Create user
     const user = await prisma.user.create({
@@ -48,32 +149,42 @@ router.post('/register', async (req, res) => {
         email: email.toLowerCase(),
         password: hashedPassword,
         role,
+        locale: resolveLocale(locale),
+        isEmailVerified: autoVerifyEmail,
         emailVerifyToken
       },
       select: {
         id: true,
         email: true,
         role: true,
+        locale: true,
         isEmailVerified: true,
         createdAt: true
       }
     });
 
-    // Send verification email
-    try {
-      const emailResult = await sendVerificationEmail(user.email, emailVerifyToken);
-      console.log('📧 Verification email sent. Preview URL:', emailResult.previewUrl);
-    } catch (emailError) {
-      console.error('Failed to send verification email:', emailError);
-      // Don't fail registration if email fails
+    // Queue verification email
+    if (emailVerifyToken) {
+      await enqueueEmail(user.email, 'verification', {
+        url: frontendUrl(`/verify-email?token=${emailVerifyToken}`)
+      }, user.locale);
     }
 
-    // Generate tokens
-    const accessToken = generateAccessToken(user.id);
-    const refreshToken = generateRefreshToken(user.id);
+    // Unverified users can't log in yet, so don't hand them a session either
+    if (getAuthConfig().requireEmailVerification && !user.isEmailVerified) {
+      return res.status(201).json({
+        message: 'User registered successfully. Please verify your email before logging in.',
+        user
+      });
+    }
+
+    // Start a session and generate tokens
+    const { accessToken, refreshToken } = await createSession(user.id, req);
 
     res.status(201).json({
-      message: 'User registered successfully. Please check your email for verification.',
+      message: user.isEmailVerified
+        ? 'User registered successfully'
+        : 'User registered successfully. Please check your email for verification.',
       user,
       accessToken,
       refreshToken
@@ -86,62 +197,77 @@ router.post('/register', async (req, res) => {
 });
 
 // Login
-router.post('/login', async (req, res) => {
+router.post('/login', validate({
+  summary: 'Log in with email and password',
+  body: {
+    email: field.string({ trim: true, maxLength: 254 }),
+    password: passwordField
+  },
+  response: loginResponse,
+  errors: [401, 403, 429]
+}), async (req, res) => {
   try {
     const { email, password } = req.body;
 
-    if (!email || !password) {
-      return res.status(400).json({ message: 'Email and password are required' });
+    // Refuse early while the IP or the account is locked out
+    const retryAfter = await getRetryAfter([ipKey(req.ip), accountKey(email)]);
+    if (retryAfter > 0) {
+      return sendTooManyAttempts(res, retryAfter);
     }
 
+    const registerLoginFailure = () => Promise.all([
+      registerFailure(ipKey(req.ip), THROTTLE_POLICIES.ip),
+      registerFailure(accountKey(email), THROTTLE_POLICIES.account)
+    ]);
+
     // Find user
     const user = await prisma.user.findUnique({
       where: { email: email.toLowerCase() },
-      include: {
-        auPairProfile: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            profilePhotoUrl: true
-          }
-        },
-        hostFamilyProfile: {
-          select: {
-            id: true,
-            familyName: true,
-            contactPersonName: true,
-            profilePhotoUrl: true
-          }
-        }
-      }
+      include: loginProfileInclude
     });
 
     if (!user || !user.isActive) {
+      await registerLoginFailure();
       return res.status(401).json({ message: 'Invalid credentials or account deactivated' });
     }
 
     // Verify password
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
+      await registerLoginFailure();
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
+    await resetThrottle(accountKey(email));
+
+    if (getAuthConfig().requireEmailVerification && !user.isEmailVerified) {
+      return res.status(403).json({
+        message: 'Please verify your email address before logging in',
+        emailNotVerified: true
+      });
+    }
+
+    // Password is correct but a second factor is still needed
+    if (user.twoFactorEnabled) {
+      return res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id)
+      });
+    }
+
     // Update last login
     await prisma.user.update({
       where: { id: user.id },
       data: { lastLogin: new Date() }
     });
 
-    // Generate tokens
-    const accessToken = generateAccessToken(user.id);
-    const refreshToken = generateRefreshToken(user.id);
-
-    const { password: _, emailVerifyToken, resetPasswordToken, resetPasswordExpires, ...userWithoutSensitiveData } = user;
+    // Start a session and generate tokens
+    const { accessToken, refreshToken } = await createSession(user.id, req);
 
     res.json({
       message: 'Login successful',
-      user: userWithoutSensitiveData,
+      user: stripSensitiveFields(user),
       accessToken,
       refreshToken
     });
@@ -152,48 +278,112 @@ router.post('/login', async (req, res) => {
   }
 });
 
-// Refresh token
-router.post('/refresh', async (req, res) => {
+// Complete a two-step login with a TOTP or recovery code
+router.post('/login/2fa', validate({
+  summary: 'Finish a login with a two-factor or recovery code',
+  body: {
+    challengeToken: tokenField,
+    code: twoFactorCodeField,
+    recoveryCode: recoveryCodeField
+  },
+  response: loginResponse,
+  errors: [401, 429]
+}), async (req, res) => {
   try {
-    const { refreshToken } = req.body;
+    const { challengeToken, code, recoveryCode } = req.body;
 
-    if (!refreshToken) {
-      return res.status(401).json({ message: 'Refresh token is required' });
+    if (!code && !recoveryCode) {
+      return res.status(400).json({ message: 'A code or recovery code is required' });
+    }
+
+    let userId: string;
+    try {
+      ({ userId } = verifyTwoFactorChallengeToken(challengeToken));
+    } catch (error) {
+      return res.status(401).json({ message: 'Invalid or expired challenge token' });
     }
 
-    const decoded = verifyRefreshToken(refreshToken);
-    
     const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: { id: true, isActive: true }
+      where: { id: userId },
+      include: loginProfileInclude
     });
 
-    if (!user || !user.isActive) {
-      return res.status(401).json({ message: 'Invalid refresh token or user deactivated' });
+    if (!user || !user.isActive || !user.twoFactorEnabled) {
+      return res.status(401).json({ message: 'Invalid credentials or account deactivated' });
+    }
+
+    const throttleKey = twoFactorKey(user.id);
+    const retryAfter = await getRetryAfter([throttleKey]);
+    if (retryAfter > 0) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+
+    if (!(await verifySecondFactor(user, code, recoveryCode))) {
+      await registerFailure(throttleKey, THROTTLE_POLICIES.twoFactor);
+      return res.status(401).json({ message: 'Invalid two-factor code' });
     }
 
-    const newAccessToken = generateAccessToken(user.id);
-    const newRefreshToken = generateRefreshToken(user.id);
+    await resetThrottle(throttleKey);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLogin: new Date() }
+    });
+
+    const { accessToken, refreshToken } = await createSession(user.id, req);
 
     res.json({
-      accessToken: newAccessToken,
-      refreshToken: newRefreshToken
+      message: 'Login successful',
+      user: stripSensitiveFields(user),
+      accessToken,
+      refreshToken
     });
 
   } catch (error) {
-    res.status(401).json({ message: 'Invalid refresh token' });
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-// Verify email
-router.post('/verify-email', async (req, res) => {
+// Refresh token
+router.post('/refresh', validate({
+  summary: 'Exchange a refresh token for new tokens',
+  description: 'The refresh token is rotated; the old one stops working.',
+  body: {
+    refreshToken: tokenField
+  },
+  response: { accessToken: field.string(), refreshToken: field.string() },
+  errors: [401]
+}), async (req, res) => {
   try {
-    const { token } = req.body;
+    const { refreshToken } = req.body;
+
+    const tokens = await rotateSession(refreshToken, req);
 
-    if (!token) {
-      return res.status(400).json({ message: 'Verification token is required' });
+    if (!tokens) {
+      return res.status(401).json({ message: 'Invalid refresh token or session revoked' });
     }
 
+    res.json({
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken
+    });
+
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Verify email
+router.post('/verify-email', validate({
+  summary: 'Verify an email address',
+  body: { token: tokenField },
+  response: messageResponse()
+}), async (req, res) => {
+  try {
+    const { token } = req.body;
+
     const user = await prisma.user.findFirst({
       where: { emailVerifyToken: token }
     });
@@ -218,15 +408,80 @@ router.post('/verify-email', async (req, res) => {
   }
 });
 
+// Resend the verification email
+router.post('/resend-verification', validate({
+  summary: 'Resend the verification email',
+  body: { email: emailField },
+  response: messageResponse(),
+  errors: [429]
+}), async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    // Same mailbox-flooding protection as forgot-password
+    const throttleKeys = [`verify:${accountKey(email)}`, `verify:${ipKey(req.ip)}`];
+    const retryAfter = await getRetryAfter(throttleKeys);
+    if (retryAfter > 0) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+
+    await Promise.all([
+      registerFailure(throttleKeys[0], THROTTLE_POLICIES.emailRequest),
+      registerFailure(throttleKeys[1], THROTTLE_POLICIES.ip)
+    ]);
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() }
+    });
+
+    // Don't reveal if email exists or not
+    const response = { message: 'If the account exists and is unverified, a verification email has been sent' };
+
+    if (!user || user.isEmailVerified) {
+      return res.json(response);
+    }
+
+    const emailVerifyToken = crypto.randomBytes(32).toString('hex');
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerifyToken }
+    });
+
+    await enqueueEmail(user.email, 'verification', {
+      url: frontendUrl(`/verify-email?token=${emailVerifyToken}`)
+    }, user.locale);
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 // Request password reset
-router.post('/forgot-password', async (req, res) => {
+router.post('/forgot-password', validate({
+  summary: 'Request a password reset email',
+  body: { email: emailField },
+  response: messageResponse(),
+  errors: [429]
+}), async (req, res) => {
   try {
     const { email } = req.body;
 
-    if (!email) {
-      return res.status(400).json({ message: 'Email is required' });
+    // Every request counts, so a mailbox can't be flooded
+    const throttleKeys = [`reset:${accountKey(email)}`, `reset:${ipKey(req.ip)}`];
+    const retryAfter = await getRetryAfter(throttleKeys);
+    if (retryAfter > 0) {
+      return sendTooManyAttempts(res, retryAfter);
     }
 
+    await Promise.all([
+      registerFailure(throttleKeys[0], THROTTLE_POLICIES.emailRequest),
+      registerFailure(throttleKeys[1], THROTTLE_POLICIES.ip)
+    ]);
+
     const user = await prisma.user.findUnique({
       where: { email: email.toLowerCase() }
     });
@@ -247,12 +502,9 @@ router.post('/forgot-password', async (req, res) => {
       }
     });
 
-    try {
-      const emailResult = await sendPasswordResetEmail(user.email, resetToken);
-      console.log('📧 Password reset email sent. Preview URL:', emailResult.previewUrl);
-    } catch (emailError) {
-      console.error('Failed to send password reset email:', emailError);
-    }
+    await enqueueEmail(user.email, 'passwordReset', {
+      url: frontendUrl(`/reset-password?token=${resetToken}`)
+    }, user.locale);
 
     res.json({ message: 'If the email exists, a password reset link has been sent' });
 
@@ -263,16 +515,17 @@ router.post('/forgot-password', async (req, res) => {
 });
 
 // Reset password
-router.post('/reset-password', async (req, res) => {
+router.post('/reset-password', validate({
+  summary: 'Reset the password with an emailed token',
+  body: { token: tokenField, password: passwordField },
+  response: messageResponse()
+}), async (req, res) => {
   try {
     const { token, password } = req.body;
 
-    if (!token || !password) {
-      return res.status(400).json({ message: 'Token and password are required' });
-    }
-
-    if (password.length < 6) {
-      return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ message: passwordError });
     }
 
     const user = await prisma.user.findFirst({
@@ -299,6 +552,9 @@ router.post('/reset-password', async (req, res) => {
       }
     });
 
+    // Log out every device that may have been using the old password
+    await revokeAllSessions(user.id, 'PASSWORD_RESET');
+
     res.json({ message: 'Password reset successfully' });
 
   } catch (error) {
@@ -307,8 +563,173 @@ router.post('/reset-password', async (req, res) => {
   }
 });
 
+// Request an email change; the new address must be confirmed before it is used
+router.post('/change-email', authMiddleware, validate({
+  summary: 'Request an email address change',
+  body: {
+    newEmail: emailField,
+    password: passwordField
+  },
+  response: messageResponse(),
+  errors: [404, 429]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { newEmail, password } = req.body;
+    const normalizedEmail = newEmail.toLowerCase();
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!(await checkCurrentPassword(res, user, password))) return;
+
+    if (normalizedEmail === user.email) {
+      return res.status(400).json({ message: 'New email must be different from the current one' });
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: normalizedEmail }
+    });
+
+    if (existingUser) {
+      return res.status(400).json({ message: 'User with this email already exists' });
+    }
+
+    const emailChangeToken = crypto.randomBytes(32).toString('hex');
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        pendingEmail: normalizedEmail,
+        emailChangeToken,
+        emailChangeExpires: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
+      }
+    });
+
+    await enqueueEmail(normalizedEmail, 'emailChangeConfirmation', {
+      url: frontendUrl(`/confirm-email-change?token=${emailChangeToken}`)
+    }, user.locale);
+    await enqueueEmail(user.email, 'emailChangeNotice', { newEmail: normalizedEmail }, user.locale);
+
+    res.json({ message: 'Check your new email address to confirm the change' });
+
+  } catch (error) {
+    console.error('Change email error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Confirm a pending email change
+router.post('/confirm-email-change', validate({
+  summary: 'Confirm an email address change',
+  body: { token: tokenField },
+  response: messageResponse()
+}), async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    const user = await prisma.user.findFirst({
+      where: {
+        emailChangeToken: token,
+        emailChangeExpires: {
+          gt: new Date()
+        }
+      }
+    });
+
+    if (!user || !user.pendingEmail) {
+      return res.status(400).json({ message: 'Invalid or expired token' });
+    }
+
+    // The address may have been registered since the change was requested
+    const existingUser = await prisma.user.findUnique({
+      where: { email: user.pendingEmail }
+    });
+
+    if (existingUser) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { pendingEmail: null, emailChangeToken: null, emailChangeExpires: null }
+      });
+      return res.status(400).json({ message: 'User with this email already exists' });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        email: user.pendingEmail,
+        isEmailVerified: true,
+        pendingEmail: null,
+        emailChangeToken: null,
+        emailChangeExpires: null
+      }
+    });
+
+    res.json({ message: 'Email changed successfully' });
+
+  } catch (error) {
+    console.error('Confirm email change error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Change password and log out every other device
+router.post('/change-password', authMiddleware, validate({
+  summary: 'Change the password',
+  description: 'Every other session is logged out.',
+  body: {
+    currentPassword: passwordField,
+    newPassword: passwordField
+  },
+  response: messageResponse({ revokedSessions: field.integer() }),
+  errors: [404, 429]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return res.status(400).json({ message: passwordError });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!(await checkCurrentPassword(res, user, currentPassword))) return;
+
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: hashedPassword }
+    });
+
+    const revokedSessions = await revokeAllSessions(user.id, 'PASSWORD_CHANGED', req.user!.sessionId);
+
+    res.json({ message: 'Password changed successfully', revokedSessions });
+
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 // Get current user
-router.get('/me', authMiddleware, async (req: AuthRequest, res) => {
+router.get('/me', authMiddleware, validate({
+  summary: 'Get the current user',
+  description: 'Also returns pendingEmail while an email change awaits confirmation.',
+  response: { user: field.ref('User', { description: 'With a summary of the profile' }) },
+  errors: [404]
+}), async (req: AuthRequest, res) => {
   try {
     const user = await prisma.user.findUnique({
       where: { id: req.user!.id },
@@ -318,6 +739,9 @@ router.get('/me', authMiddleware, async (req: AuthRequest, res) => {
         role: true,
         isActive: true,
         isEmailVerified: true,
+        pendingEmail: true,
+        locale: true,
+        twoFactorEnabled: true,
         lastLogin: true,
         createdAt: true,
         auPairProfile: {
@@ -353,4 +777,271 @@ router.get('/me', authMiddleware, async (req: AuthRequest, res) => {
   }
 });
 
+// Start 2FA enrollment: generate a secret the user adds to their authenticator app
+router.post('/2fa/setup', authMiddleware, validate({
+  summary: 'Start two-factor setup',
+  description: 'Returns a new secret to add to an authenticator app; confirm it with POST /api/auth/2fa/enable.',
+  response: { secret: field.string(), otpauthUrl: field.string(), qrCodeDataUrl: field.string() },
+  errors: [400]
+}), async (req: AuthRequest, res) => {
+  try {
+    if (req.user!.twoFactorEnabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    const { secret, otpauthUrl, qrCodeDataUrl } = await generateTwoFactorSecret(req.user!.email);
+
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { twoFactorSecret: secret }
+    });
+
+    res.json({ secret, otpauthUrl, qrCodeDataUrl });
+
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Finish enrollment by proving the authenticator app produces valid codes
+router.post('/2fa/enable', authMiddleware, validate({
+  summary: 'Enable two-factor authentication',
+  body: {
+    code: { ...twoFactorCodeField, optional: false }
+  },
+  response: messageResponse({ recoveryCodes: field.array(field.string()) })
+}), async (req: AuthRequest, res) => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { twoFactorEnabled: true, twoFactorSecret: true }
+    });
+
+    if (!user || user.twoFactorEnabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    if (!user.twoFactorSecret) {
+      return res.status(400).json({ message: 'Start two-factor setup first' });
+    }
+
+    const step = verifyTotpCode(user.twoFactorSecret, code);
+    if (step === null) {
+      return res.status(400).json({ message: 'Invalid two-factor code' });
+    }
+
+    const { codes, hashedCodes } = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorRecoveryCodes: hashedCodes,
+        twoFactorLastStep: step
+      }
+    });
+
+    res.json({
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      recoveryCodes: codes
+    });
+
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Replace all recovery codes (requires a current code)
+router.post('/2fa/recovery-codes', authMiddleware, validate({
+  summary: 'Replace the two-factor recovery codes',
+  body: {
+    code: { ...twoFactorCodeField, optional: false }
+  },
+  response: { recoveryCodes: field.array(field.string()) },
+  errors: [429]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { id: true, twoFactorEnabled: true, twoFactorSecret: true, twoFactorRecoveryCodes: true }
+    });
+
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    // Same lockout as /login/2fa, so a stolen access token can't be used to guess codes
+    const throttleKey = twoFactorKey(user.id);
+    const retryAfter = await getRetryAfter([throttleKey]);
+    if (retryAfter > 0) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+
+    if (!(await verifySecondFactor(user, code))) {
+      await registerFailure(throttleKey, THROTTLE_POLICIES.twoFactor);
+      return res.status(400).json({ message: 'Invalid two-factor code' });
+    }
+
+    await resetThrottle(throttleKey);
+
+    const { codes, hashedCodes } = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { twoFactorRecoveryCodes: hashedCodes }
+    });
+
+    res.json({ recoveryCodes: codes });
+
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Turn 2FA off (requires password and a code)
+router.post('/2fa/disable', authMiddleware, validate({
+  summary: 'Disable two-factor authentication',
+  description: 'Not allowed for admins, who must use two-factor authentication.',
+  body: {
+    password: passwordField,
+    code: twoFactorCodeField,
+    recoveryCode: recoveryCodeField
+  },
+  response: messageResponse(),
+  errors: [403, 429]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    if (req.user!.role === 'ADMIN') {
+      return res.status(403).json({ message: 'Two-factor authentication is mandatory for admin accounts' });
+    }
+
+    if (!code && !recoveryCode) {
+      return res.status(400).json({ message: 'A code or recovery code is required' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    const throttleKey = twoFactorKey(user.id);
+    const retryAfter = await getRetryAfter([throttleKey]);
+    if (retryAfter > 0) {
+      return sendTooManyAttempts(res, retryAfter);
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid || !(await verifySecondFactor(user, code, recoveryCode))) {
+      await registerFailure(throttleKey, THROTTLE_POLICIES.twoFactor);
+      return res.status(401).json({ message: 'Invalid password or two-factor code' });
+    }
+
+    await resetThrottle(throttleKey);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: null,
+        twoFactorLastStep: null
+      }
+    });
+
+    res.json({ message: 'Two-factor authentication disabled' });
+
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// List the current user's active sessions (logged-in devices)
+router.get('/sessions', authMiddleware, validate({
+  summary: 'List active sessions',
+  response: {
+    sessions: field.array(field.object({
+      id: field.string(),
+      userAgent: field.string({ nullable: true }),
+      ipAddress: field.string({ nullable: true }),
+      lastUsedAt: field.date(),
+      expiresAt: field.date(),
+      createdAt: field.date(),
+      current: field.boolean({ description: 'The session making this request' })
+    }))
+  }
+}), async (req: AuthRequest, res) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId: req.user!.id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        createdAt: true
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === req.user!.sessionId
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Revoke one of the current user's sessions
+router.delete('/sessions/:id', authMiddleware, validate({
+  summary: 'Revoke a session',
+  response: messageResponse(),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const session = await prisma.session.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, userId: true, revokedAt: true }
+    });
+
+    if (!session || session.userId !== req.user!.id) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    if (session.revokedAt) {
+      return res.status(400).json({ message: 'Session already revoked' });
+    }
+
+    await revokeSession(session.id, 'LOGOUT');
+
+    res.json({ message: 'Session revoked successfully' });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,11 +1,37 @@
 import express from 'express';
-import { prisma } from '../index';
+import { prisma } from '../db';
 import { AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { field, messageResponse } from '../utils/validation';
+import { notifyUser } from '../utils/notifications';
+import { getDisplayName } from '../utils/users';
+import { frontendUrl } from '../utils/email';
 
 const router = express.Router();
 
+const BOOKING_STATUSES = ['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED', 'COMPLETED'];
+
+const bookingDetails = {
+  totalHours: field.number({ optional: true, min: 0 }),
+  hourlyRate: field.number({ optional: true, min: 0 }),
+  currency: field.string({ optional: true, pattern: /^[A-Z]{3}$/, description: 'ISO 4217 code, e.g. EUR' }),
+  notes: field.string({ optional: true, nullable: true, maxLength: 2000 })
+};
+
 // Create a booking request
-router.post('/', async (req: AuthRequest, res) => {
+router.post('/', validate({
+  summary: 'Request a booking',
+  description: 'Only between an au pair and a host family with an approved match.',
+  body: {
+    targetUserId: field.string(),
+    startDate: field.date(),
+    endDate: field.date(),
+    ...bookingDetails
+  },
+  status: 201,
+  response: messageResponse({ booking: field.ref('Booking') }),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
     const userRole = req.user!.role;
@@ -19,16 +45,11 @@ router.post('/', async (req: AuthRequest, res) => {
       notes
     } = req.body;
 
-    // Validation
-    if (!targetUserId || !startDate || !endDate) {
-      return res.status(400).json({ message: 'Target user, start date, and end date are required' });
-    }
-
-    if (new Date(startDate) >= new Date(endDate)) {
+    if (startDate >= endDate) {
       return res.status(400).json({ message: 'End date must be after start date' });
     }
 
-    if (new Date(startDate) < new Date()) {
+    if (startDate < new Date()) {
       return res.status(400).json({ message: 'Start date cannot be in the past' });
     }
 
@@ -69,20 +90,20 @@ router.post('/', async (req: AuthRequest, res) => {
         OR: [
           {
             AND: [
-              { startDate: { lte: new Date(startDate) } },
-              { endDate: { gte: new Date(startDate) } }
+              { startDate: { lte: startDate } },
+              { endDate: { gte: startDate } }
             ]
           },
           {
             AND: [
-              { startDate: { lte: new Date(endDate) } },
-              { endDate: { gte: new Date(endDate) } }
+              { startDate: { lte: endDate } },
+              { endDate: { gte: endDate } }
             ]
           },
           {
             AND: [
-              { startDate: { gte: new Date(startDate) } },
-              { endDate: { lte: new Date(endDate) } }
+              { startDate: { gte: startDate } },
+              { endDate: { lte: endDate } }
             ]
           }
         ]
@@ -96,7 +117,7 @@ router.post('/', async (req: AuthRequest, res) => {
     // Calculate total amount
     let totalAmount = null;
     if (totalHours && hourlyRate) {
-      totalAmount = parseFloat(totalHours) * parseFloat(hourlyRate);
+      totalAmount = totalHours * hourlyRate;
     }
 
     // Create booking
@@ -104,10 +125,10 @@ router.post('/', async (req: AuthRequest, res) => {
       data: {
         auPairId: userRole === 'AU_PAIR' ? userId : targetUserId,
         hostId: userRole === 'HOST_FAMILY' ? userId : targetUserId,
-        startDate: new Date(startDate),
-        endDate: new Date(endDate),
-        totalHours: totalHours ? parseFloat(totalHours) : null,
-        hourlyRate: hourlyRate ? parseFloat(hourlyRate) : null,
+        startDate,
+        endDate,
+        totalHours: totalHours ?? null,
+        hourlyRate: hourlyRate ?? null,
         totalAmount,
         currency: currency || 'USD',
         notes,
@@ -135,6 +156,18 @@ router.post('/', async (req: AuthRequest, res) => {
       }
     });
 
+    const senderName = userRole === 'AU_PAIR' ? getDisplayName(booking.auPair) : getDisplayName(booking.host);
+
+    await notifyUser(targetUserId, 'BOOKING_CREATED', {
+      title: 'New booking request',
+      body: `${senderName} requested a booking`,
+      data: { bookingId: booking.id, fromUserId: userId },
+      email: {
+        template: 'bookingRequest',
+        data: { senderName, startDate: booking.startDate, endDate: booking.endDate, url: frontendUrl('/bookings') }
+      }
+    });
+
     res.status(201).json({ message: 'Booking request created successfully', booking });
   } catch (error) {
     console.error('Create booking error:', error);
@@ -143,12 +176,18 @@ router.post('/', async (req: AuthRequest, res) => {
 });
 
 // Get user's bookings
-router.get('/my-bookings', async (req: AuthRequest, res) => {
+router.get('/my-bookings', validate({
+  summary: "List the current user's bookings",
+  query: {
+    status: field.enum(BOOKING_STATUSES, { optional: true }),
+    upcoming: field.boolean({ optional: true })
+  },
+  response: { bookings: field.array(field.ref('Booking')) }
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
     const userRole = req.user!.role;
-    const status = req.query.status as string;
-    const upcoming = req.query.upcoming === 'true';
+    const { status, upcoming } = req.query;
 
     const whereClause: any = {};
     
@@ -199,7 +238,11 @@ router.get('/my-bookings', async (req: AuthRequest, res) => {
 });
 
 // Get booking by ID
-router.get('/:bookingId', async (req: AuthRequest, res) => {
+router.get('/:bookingId', validate({
+  summary: 'Get a booking',
+  response: { booking: field.ref('Booking') },
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const { bookingId } = req.params;
     const userId = req.user!.id;
@@ -245,18 +288,20 @@ router.get('/:bookingId', async (req: AuthRequest, res) => {
 });
 
 // Update booking status
-router.put('/:bookingId/status', async (req: AuthRequest, res) => {
+router.put('/:bookingId/status', validate({
+  summary: 'Change the status of a booking',
+  body: {
+    status: field.enum(['APPROVED', 'REJECTED', 'CANCELLED', 'COMPLETED']),
+    notes: bookingDetails.notes
+  },
+  response: messageResponse({ booking: field.ref('Booking') }),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const { bookingId } = req.params;
     const { status, notes } = req.body;
     const userId = req.user!.id;
 
-    if (!['APPROVED', 'REJECTED', 'CANCELLED', 'COMPLETED'].includes(status)) {
-      return res.status(400).json({ 
-        message: 'Status must be APPROVED, REJECTED, CANCELLED, or COMPLETED' 
-      });
-    }
-
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId }
     });
@@ -308,6 +353,27 @@ router.put('/:bookingId/status', async (req: AuthRequest, res) => {
       }
     });
 
+    const otherUserId = userId === booking.hostId ? booking.auPairId : booking.hostId;
+    const updaterName = userId === booking.hostId
+      ? getDisplayName(updatedBooking.host)
+      : getDisplayName(updatedBooking.auPair);
+
+    await notifyUser(otherUserId, 'BOOKING_STATUS_CHANGED', {
+      title: 'Booking updated',
+      body: `${updaterName} marked your booking as ${status.toLowerCase()}`,
+      data: { bookingId: booking.id, status, fromUserId: userId },
+      email: {
+        template: 'bookingStatus',
+        data: {
+          otherName: updaterName,
+          status,
+          startDate: updatedBooking.startDate,
+          endDate: updatedBooking.endDate,
+          url: frontendUrl('/bookings')
+        }
+      }
+    });
+
     res.json({ message: 'Booking status updated successfully', booking: updatedBooking });
   } catch (error) {
     console.error('Update booking status error:', error);
@@ -316,7 +382,16 @@ router.put('/:bookingId/status', async (req: AuthRequest, res) => {
 });
 
 // Update booking details
-router.put('/:bookingId', async (req: AuthRequest, res) => {
+router.put('/:bookingId', validate({
+  summary: 'Update a pending booking',
+  body: {
+    startDate: field.date({ optional: true }),
+    endDate: field.date({ optional: true }),
+    ...bookingDetails
+  },
+  response: messageResponse({ booking: field.ref('Booking') }),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const { bookingId } = req.params;
     const {
@@ -348,27 +423,27 @@ router.put('/:bookingId', async (req: AuthRequest, res) => {
     }
 
     // Validation
-    if (startDate && endDate && new Date(startDate) >= new Date(endDate)) {
+    if ((startDate || booking.startDate) >= (endDate || booking.endDate)) {
       return res.status(400).json({ message: 'End date must be after start date' });
     }
 
-    if (startDate && new Date(startDate) < new Date()) {
+    if (startDate && startDate < new Date()) {
       return res.status(400).json({ message: 'Start date cannot be in the past' });
     }
 
     // Calculate total amount if hours and rate are provided
     let totalAmount = booking.totalAmount;
     if (totalHours && hourlyRate) {
-      totalAmount = parseFloat(totalHours) * parseFloat(hourlyRate);
+      totalAmount = totalHours * hourlyRate;
     }
 
     const updatedBooking = await prisma.booking.update({
       where: { id: bookingId },
       data: {
-        ...(startDate && { startDate: new Date(startDate) }),
-        ...(endDate && { endDate: new Date(endDate) }),
-        ...(totalHours && { totalHours: parseFloat(totalHours) }),
-        ...(hourlyRate && { hourlyRate: parseFloat(hourlyRate) }),
+        ...(startDate && { startDate }),
+        ...(endDate && { endDate }),
+        ...(totalHours !== undefined && { totalHours }),
+        ...(hourlyRate !== undefined && { hourlyRate }),
         ...(currency && { currency }),
         ...(notes !== undefined && { notes }),
         ...(totalAmount !== booking.totalAmount && { totalAmount }),
@@ -404,7 +479,12 @@ router.put('/:bookingId', async (req: AuthRequest, res) => {
 });
 
 // Delete booking
-router.delete('/:bookingId', async (req: AuthRequest, res) => {
+router.delete('/:bookingId', validate({
+  summary: 'Delete a booking',
+  description: 'Only pending, rejected or cancelled bookings can be deleted.',
+  response: messageResponse(),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const { bookingId } = req.params;
     const userId = req.user!.id;
@@ -439,11 +519,26 @@ router.delete('/:bookingId', async (req: AuthRequest, res) => {
 });
 
 // Get au pair's availability (upcoming bookings)
-router.get('/au-pair/:auPairId/availability', async (req: AuthRequest, res) => {
+router.get('/au-pair/:auPairId/availability', validate({
+  summary: "List an au pair's booked periods",
+  description: 'Pending and approved bookings overlapping the dates, or all upcoming ones.',
+  query: {
+    startDate: field.date({ optional: true }),
+    endDate: field.date({ optional: true })
+  },
+  response: {
+    bookedSlots: field.array(field.object({
+      id: field.string(),
+      startDate: field.date(),
+      endDate: field.date(),
+      status: field.ref('BookingStatus')
+    }))
+  },
+  errors: [404]
+}), async (req: AuthRequest, res) => {
   try {
     const { auPairId } = req.params;
-    const startDate = req.query.startDate as string;
-    const endDate = req.query.endDate as string;
+    const { startDate, endDate } = req.query as Record<string, any>;
 
     // Verify au pair exists
     const auPair = await prisma.user.findUnique({
@@ -464,8 +559,8 @@ router.get('/au-pair/:auPairId/availability', async (req: AuthRequest, res) => {
       whereClause.OR = [
         {
           AND: [
-            { startDate: { lte: new Date(endDate) } },
-            { endDate: { gte: new Date(startDate) } }
+            { startDate: { lte: endDate } },
+            { endDate: { gte: startDate } }
           ]
         }
       ];
@@ -1,12 +1,28 @@
 import express from 'express';
-import { prisma } from '../index';
-import { AuthRequest } from '../middleware/auth';
+import { prisma } from '../db';
+import { AuthRequest, roleMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { field, messageResponse, paginationQuery, paginationResponse } from '../utils/validation';
 import { upload, uploadToSupabase, deleteFromSupabase } from '../utils/supabase';
+import { notifyUser } from '../utils/notifications';
+import { frontendUrl } from '../utils/email';
+import { refreshProfileCompleteness } from '../utils/profileCompleteness';
 
 const router = express.Router();
 
+const DOCUMENT_TYPES = ['ID', 'PASSPORT', 'VISA', 'PROFILE_PHOTO'];
+const DOCUMENT_STATUSES = ['PENDING', 'VERIFIED', 'REJECTED'];
+
 // Upload document
-router.post('/upload', upload.single('document'), async (req: AuthRequest, res) => {
+router.post('/upload', upload.single('document'), validate({
+  summary: 'Upload a document',
+  description: 'Replaces an existing document of the same type and resets it to pending verification.',
+  files: ['document'],
+  body: {
+    type: field.enum(DOCUMENT_TYPES)
+  },
+  response: messageResponse({ document: field.ref('Document') })
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
     const { type } = req.body;
@@ -15,10 +31,6 @@ router.post('/upload', upload.single('document'), async (req: AuthRequest, res)
       return res.status(400).json({ message: 'No file provided' });
     }
 
-    if (!type || !['ID', 'PASSPORT', 'VISA', 'PROFILE_PHOTO'].includes(type)) {
-      return res.status(400).json({ message: 'Invalid document type' });
-    }
-
     // Check if document of this type already exists
     const existingDocument = await prisma.document.findFirst({
       where: { userId, type }
@@ -54,6 +66,7 @@ router.post('/upload', upload.single('document'), async (req: AuthRequest, res)
           uploadedAt: new Date()
         }
       });
+      await refreshProfileCompleteness(prisma, userId);
 
       res.json({ message: 'Document updated successfully', document });
     } else {
@@ -68,6 +81,7 @@ router.post('/upload', upload.single('document'), async (req: AuthRequest, res)
           status: 'PENDING'
         }
       });
+      await refreshProfileCompleteness(prisma, userId);
 
       res.json({ message: 'Document uploaded successfully', document });
     }
@@ -78,7 +92,10 @@ router.post('/upload', upload.single('document'), async (req: AuthRequest, res)
 });
 
 // Get user's documents
-router.get('/my-documents', async (req: AuthRequest, res) => {
+router.get('/my-documents', validate({
+  summary: "List the current user's documents",
+  response: { documents: field.array(field.ref('Document')) }
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
 
@@ -106,7 +123,12 @@ router.get('/my-documents', async (req: AuthRequest, res) => {
 });
 
 // Get documents by user ID (for admin or matched users)
-router.get('/user/:userId', async (req: AuthRequest, res) => {
+router.get('/user/:userId', validate({
+  summary: "List a user's documents",
+  description: 'Admins and users with an approved match see them.',
+  response: { documents: field.array(field.ref('Document')) },
+  errors: [403]
+}), async (req: AuthRequest, res) => {
   try {
     const { userId } = req.params;
     const currentUserId = req.user!.id;
@@ -160,19 +182,17 @@ router.get('/user/:userId', async (req: AuthRequest, res) => {
 });
 
 // Update document status (admin only)
-router.put('/:documentId/status', async (req: AuthRequest, res) => {
+router.put('/:documentId/status', roleMiddleware(['ADMIN']), validate({
+  summary: 'Verify or reject a document',
+  body: {
+    status: field.enum(DOCUMENT_STATUSES),
+    notes: field.string({ optional: true, nullable: true, maxLength: 2000 })
+  },
+  response: messageResponse({ document: field.ref('Document') })
+}), async (req: AuthRequest, res) => {
   try {
     const { documentId } = req.params;
     const { status, notes } = req.body;
-    const currentUserRole = req.user!.role;
-
-    if (currentUserRole !== 'ADMIN') {
-      return res.status(403).json({ message: 'Only admins can update document status' });
-    }
-
-    if (!['PENDING', 'VERIFIED', 'REJECTED'].includes(status)) {
-      return res.status(400).json({ message: 'Invalid status. Must be PENDING, VERIFIED, or REJECTED' });
-    }
 
     const document = await prisma.document.update({
       where: { id: documentId },
@@ -183,6 +203,23 @@ router.put('/:documentId/status', async (req: AuthRequest, res) => {
         verifiedBy: status === 'VERIFIED' ? req.user!.id : null
       }
     });
+    await refreshProfileCompleteness(prisma, document.userId);
+
+    if (status === 'VERIFIED' || status === 'REJECTED') {
+      const documentLabel = document.type.toLowerCase().replace('_', ' ');
+
+      await notifyUser(document.userId, status === 'VERIFIED' ? 'DOCUMENT_VERIFIED' : 'DOCUMENT_REJECTED', {
+        title: status === 'VERIFIED' ? 'Document verified' : 'Document rejected',
+        body: status === 'VERIFIED'
+          ? `Your ${documentLabel} has been verified`
+          : `Your ${documentLabel} was rejected${notes ? `: ${notes}` : ''}`,
+        data: { documentId: document.id, documentType: document.type },
+        email: {
+          template: 'documentStatus',
+          data: { documentType: documentLabel, verified: status === 'VERIFIED', notes, url: frontendUrl('/documents') }
+        }
+      });
+    }
 
     res.json({ message: 'Document status updated successfully', document });
   } catch (error) {
@@ -192,7 +229,11 @@ router.put('/:documentId/status', async (req: AuthRequest, res) => {
 });
 
 // Delete document
-router.delete('/:documentId', async (req: AuthRequest, res) => {
+router.delete('/:documentId', validate({
+  summary: 'Delete a document',
+  response: messageResponse(),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const { documentId } = req.params;
     const userId = req.user!.id;
@@ -223,6 +264,7 @@ router.delete('/:documentId', async (req: AuthRequest, res) => {
     await prisma.document.delete({
       where: { id: documentId }
     });
+    await refreshProfileCompleteness(prisma, document.userId);
 
     res.json({ message: 'Document deleted successfully' });
   } catch (error) {
@@ -232,18 +274,17 @@ router.delete('/:documentId', async (req: AuthRequest, res) => {
 });
 
 // Get all documents (admin only)
-router.get('/all', async (req: AuthRequest, res) => {
+router.get('/all', roleMiddleware(['ADMIN']), validate({
+  summary: 'List all documents',
+  query: {
+    status: field.enum(DOCUMENT_STATUSES, { optional: true }),
+    type: field.enum(DOCUMENT_TYPES, { optional: true }),
+    ...paginationQuery()
+  },
+  response: { documents: field.array(field.ref('Document')), pagination: paginationResponse }
+}), async (req: AuthRequest, res) => {
   try {
-    const currentUserRole = req.user!.role;
-
-    if (currentUserRole !== 'ADMIN') {
-      return res.status(403).json({ message: 'Only admins can view all documents' });
-    }
-
-    const status = req.query.status as string;
-    const type = req.query.type as string;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
+    const { status, type, page, limit } = req.query as Record<string, any>;
     const offset = (page - 1) * limit;
 
     const whereClause: any = {};
@@ -0,0 +1,26 @@
+import { ApiMount } from '../utils/openapi';
+import authRoutes from './auth';
+import oidcRoutes from './oidc';
+import userRoutes from './users-simple';
+import profileRoutes from './profiles';
+import matchRoutes from './matches';
+import messageRoutes from './messages';
+import documentRoutes from './documents';
+import bookingRoutes from './bookings';
+import adminRoutes from './admin';
+import notificationRoutes from './notifications';
+
+// Routes mounted by index.ts. The OpenAPI document is built from this table, and
+// check-openapi imports it without starting the server.
+export const apiRoutes: ApiMount[] = [
+  { prefix: '/api/auth/oidc', router: oidcRoutes, tag: 'Single sign-on' },
+  { prefix: '/api/auth', router: authRoutes, tag: 'Auth' },
+  { prefix: '/api/users', router: userRoutes, tag: 'Users' },
+  { prefix: '/api/profiles', router: profileRoutes, tag: 'Profiles', requiresAuth: true },
+  { prefix: '/api/matches', router: matchRoutes, tag: 'Matches', requiresAuth: true },
+  { prefix: '/api/messages', router: messageRoutes, tag: 'Messages', requiresAuth: true },
+  { prefix: '/api/documents', router: documentRoutes, tag: 'Documents', requiresAuth: true },
+  { prefix: '/api/bookings', router: bookingRoutes, tag: 'Bookings', requiresAuth: true },
+  { prefix: '/api/admin', router: adminRoutes, tag: 'Admin', requiresAuth: true },
+  { prefix: '/api/notifications', router: notificationRoutes, tag: 'Notifications', requiresAuth: true }
+];
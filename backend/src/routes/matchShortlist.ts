@@ -0,0 +1,300 @@
+import express from 'express';
+import { ShortlistStage } from '@prisma/client';
+import { prisma } from '../db';
+import { AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { field, messageResponse } from '../utils/validation';
+import { serializeMatch } from '../utils/matching';
+
+// Host family shortlist (star, rank and interview stage per match) and private
+// match notes. Mounted by the matches router, so paths are under /api/matches.
+const router = express.Router();
+
+const SHORTLIST_STAGES: ShortlistStage[] = ['SHORTLISTED', 'CONTACTED', 'INTERVIEWED', 'OFFER'];
+const MAX_NOTE_LENGTH = 5000;
+
+const noteBody = {
+  content: field.string({ trim: true, maxLength: MAX_NOTE_LENGTH })
+};
+
+// Shortlist entry with its match and the au pair's profile summary
+const entryResponse = field.ref('ShortlistEntry');
+
+const shortlistInclude = {
+  match: {
+    include: {
+      auPair: {
+        select: {
+          id: true,
+          email: true,
+          auPairProfile: {
+            select: { firstName: true, lastName: true, profilePhotoUrl: true, nationality: true, dateOfBirth: true }
+          }
+        }
+      }
+    }
+  }
+};
+
+// Starred first, then by rank (unranked last), then most recently updated
+const sortEntries = <T extends { starred: boolean; rank: number | null; updatedAt: Date }>(entries: T[]) =>
+  [...entries].sort((a, b) =>
+    Number(b.starred) - Number(a.starred) ||
+    (a.rank ?? Infinity) - (b.rank ?? Infinity) ||
+    b.updatedAt.getTime() - a.updatedAt.getTime());
+
+const serializeEntry = <T extends { match: { scoreBreakdown: string | null } }>(entry: T) => ({
+  ...entry,
+  match: serializeMatch(entry.match)
+});
+
+// Only the host family of a match can shortlist it
+const findHostMatch = async (matchId: string, userId: string) => {
+  const match = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!match) return { error: { status: 404, message: 'Match not found' } };
+  if (match.hostId !== userId) {
+    return { error: { status: 403, message: 'Only the host family of a match can shortlist it' } };
+  }
+  return { match };
+};
+
+// Either side of a match can keep notes on it
+const findOwnMatch = async (matchId: string, userId: string) => {
+  const match = await prisma.match.findUnique({ where: { id: matchId } });
+  if (!match) return { error: { status: 404, message: 'Match not found' } };
+  if (match.hostId !== userId && match.auPairId !== userId) {
+    return { error: { status: 403, message: 'You can only add notes to matches you are part of' } };
+  }
+  return { match };
+};
+
+// Get the current host family's shortlist, optionally filtered by stage or starred
+router.get('/shortlist', validate({
+  summary: "Get the host family's shortlist",
+  description: 'Starred first, then by rank, then most recently updated.',
+  query: {
+    stage: field.enum(SHORTLIST_STAGES, { optional: true }),
+    starred: field.boolean({ optional: true })
+  },
+  response: { entries: field.array(entryResponse) }
+}), async (req: AuthRequest, res) => {
+  try {
+    const { stage, starred } = req.query as Record<string, any>;
+
+    const entries = await prisma.shortlistEntry.findMany({
+      where: {
+        hostId: req.user!.id,
+        ...(stage && { stage: stage as ShortlistStage }),
+        ...(starred !== undefined && { starred })
+      },
+      include: shortlistInclude
+    });
+
+    res.json({ entries: sortEntries(entries).map(serializeEntry) });
+  } catch (error) {
+    console.error('Get shortlist error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get the shortlist grouped by interview stage, one column per stage
+router.get('/shortlist/board', validate({
+  summary: 'Get the shortlist grouped by stage',
+  response: {
+    columns: field.array(field.object({ stage: field.ref('ShortlistStage'), entries: field.array(entryResponse) })),
+    total: field.integer()
+  }
+}), async (req: AuthRequest, res) => {
+  try {
+    const entries = await prisma.shortlistEntry.findMany({
+      where: { hostId: req.user!.id },
+      include: shortlistInclude
+    });
+
+    const sorted = sortEntries(entries).map(serializeEntry);
+    const columns = SHORTLIST_STAGES.map(stage => ({
+      stage,
+      entries: sorted.filter(entry => entry.stage === stage)
+    }));
+
+    res.json({ columns, total: entries.length });
+  } catch (error) {
+    console.error('Get shortlist board error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Add a match to the shortlist or update its star, rank or stage
+router.put('/:matchId/shortlist', validate({
+  summary: 'Add a match to the shortlist or update it',
+  body: {
+    starred: field.boolean({ optional: true }),
+    rank: field.integer({ optional: true, nullable: true, min: 1, description: 'null clears the rank' }),
+    stage: field.enum(SHORTLIST_STAGES, { optional: true })
+  },
+  response: messageResponse({ entry: entryResponse }),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { matchId } = req.params;
+    const { starred, rank, stage } = req.body;
+
+    const { match, error } = await findHostMatch(matchId, req.user!.id);
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const data = {
+      ...(starred !== undefined && { starred }),
+      ...(rank !== undefined && { rank }),
+      ...(stage !== undefined && { stage: stage as ShortlistStage })
+    };
+
+    const entry = await prisma.shortlistEntry.upsert({
+      where: { matchId },
+      update: data,
+      create: { matchId, hostId: match!.hostId, ...data },
+      include: shortlistInclude
+    });
+
+    res.json({ message: 'Shortlist updated successfully', entry: serializeEntry(entry) });
+  } catch (error) {
+    console.error('Update shortlist error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Remove a match from the shortlist
+router.delete('/:matchId/shortlist', validate({
+  summary: 'Remove a match from the shortlist',
+  response: messageResponse(),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { matchId } = req.params;
+
+    const { error } = await findHostMatch(matchId, req.user!.id);
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const { count } = await prisma.shortlistEntry.deleteMany({ where: { matchId } });
+    if (count === 0) {
+      return res.status(404).json({ message: 'Match is not on your shortlist' });
+    }
+
+    res.json({ message: 'Removed from shortlist successfully' });
+  } catch (error) {
+    console.error('Remove from shortlist error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get the current user's private notes on a match, oldest first
+router.get('/:matchId/notes', validate({
+  summary: 'List your notes on a match',
+  response: { notes: field.array(field.ref('MatchNote')) },
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { matchId } = req.params;
+    const userId = req.user!.id;
+
+    const { error } = await findOwnMatch(matchId, userId);
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const notes = await prisma.matchNote.findMany({
+      where: { matchId, authorId: userId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ notes });
+  } catch (error) {
+    console.error('Get match notes error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Add a private note to a match
+router.post('/:matchId/notes', validate({
+  summary: 'Add a private note to a match',
+  body: noteBody,
+  status: 201,
+  response: messageResponse({ note: field.ref('MatchNote') }),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { matchId } = req.params;
+    const userId = req.user!.id;
+    const { content } = req.body;
+
+    const { error } = await findOwnMatch(matchId, userId);
+    if (error) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    const note = await prisma.matchNote.create({
+      data: { matchId, authorId: userId, content }
+    });
+
+    res.status(201).json({ message: 'Note added successfully', note });
+  } catch (error) {
+    console.error('Create match note error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Edit one of the current user's notes
+router.put('/:matchId/notes/:noteId', validate({
+  summary: 'Edit a note',
+  body: noteBody,
+  response: messageResponse({ note: field.ref('MatchNote') }),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { matchId, noteId } = req.params;
+    const { content } = req.body;
+
+    const note = await prisma.matchNote.findUnique({ where: { id: noteId } });
+    if (!note || note.matchId !== matchId || note.authorId !== req.user!.id) {
+      return res.status(404).json({ message: 'Note not found' });
+    }
+
+    const updatedNote = await prisma.matchNote.update({
+      where: { id: noteId },
+      data: { content }
+    });
+
+    res.json({ message: 'Note updated successfully', note: updatedNote });
+  } catch (error) {
+    console.error('Update match note error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete one of the current user's notes
+router.delete('/:matchId/notes/:noteId', validate({
+  summary: 'Delete a note',
+  response: messageResponse(),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { matchId, noteId } = req.params;
+
+    const note = await prisma.matchNote.findUnique({ where: { id: noteId } });
+    if (!note || note.matchId !== matchId || note.authorId !== req.user!.id) {
+      return res.status(404).json({ message: 'Note not found' });
+    }
+
+    await prisma.matchNote.delete({ where: { id: noteId } });
+
+    res.json({ message: 'Note deleted successfully' });
+  } catch (error) {
+    console.error('Delete match note error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,30 +1,583 @@
 import express from 'express';
-import { prisma } from '../index';
+import { AuPairProfile, HostFamilyProfile, Prisma, User, UserRole } from '@prisma/client';
+import { prisma } from '../db';
+import { io } from '../sockets/io';
 import { AuthRequest } from '../middleware/auth';
-import { findMatches, calculateMatchScore } from '../utils/matching';
+import { validate } from '../middleware/validate';
+import { field, messageResponse } from '../utils/validation';
+import { calculateMatchScoreBreakdown, serializeMatch, MatchScoreBreakdown } from '../utils/matching';
+import { findMatches, parseCandidateCursor } from '../utils/matchIndex';
+import { getActiveScoringConfig } from '../utils/matchingConfig';
+import { parseMatchCriteria, matchCriteriaShape } from '../utils/matchCriteria';
+import { isBlockedBetween, isInRejectionCooldown, getRejectionCooldownDays } from '../utils/matchExclusions';
+import { getMatchExpiryDate } from '../utils/matchLifecycle';
+import { MAX_SAVED_SEARCHES, serializeSavedSearch, getSavedSearchCriteria } from '../utils/savedSearches';
+import { notifyUser } from '../utils/notifications';
+import { getDisplayName } from '../utils/users';
+import { frontendUrl } from '../utils/email';
+import { serializeUserProfiles } from '../utils/profileFields';
+import shortlistRoutes from './matchShortlist';
 
 const router = express.Router();
 
+// Shortlist and private notes: /shortlist, /:matchId/shortlist, /:matchId/notes
+router.use(shortlistRoutes);
+
+const targetUserBody = { targetUserId: field.string() };
+const candidatesQuery = {
+  limit: field.integer({ optional: true, min: 1, max: 100, default: 20 }),
+  cursor: field.string({ optional: true, description: 'nextCursor from the previous page' })
+};
+const savedSearchName = field.string({ trim: true, minLength: 1, maxLength: 100 });
+const matchNotes = field.string({ optional: true, nullable: true, maxLength: 1000 });
+const matchesPage = {
+  matches: field.array(field.ref('PotentialMatch')),
+  nextCursor: field.string({ nullable: true })
+};
+
+// Checks shared by match requests and likes: the target must be an active user of
+// the opposite role, not blocked, and not already matched (an expired match can be
+// reopened, a rejected one once its cooldown is over)
+const checkMatchTarget = async (userId: string, userRole: UserRole, targetUserId: string): Promise<
+  { error: { status: number; message: string } } |
+  { error?: undefined; targetUser: User & { auPairProfile: AuPairProfile | null; hostFamilyProfile: HostFamilyProfile | null }; hostId: string; auPairId: string }
+> => {
+  if (targetUserId === userId) {
+    return { error: { status: 400, message: 'Cannot match with yourself' } };
+  }
+
+  // Verify target user exists and has opposite role
+  const targetUser = await prisma.user.findUnique({
+    where: { id: targetUserId },
+    include: {
+      auPairProfile: true,
+      hostFamilyProfile: true
+    }
+  });
+
+  if (!targetUser || !targetUser.isActive) {
+    return { error: { status: 404, message: 'Target user not found or inactive' } };
+  }
+
+  // Verify roles are compatible
+  if ((userRole === 'AU_PAIR' && targetUser.role !== 'HOST_FAMILY') ||
+      (userRole === 'HOST_FAMILY' && targetUser.role !== 'AU_PAIR')) {
+    return { error: { status: 400, message: 'Can only match au pairs with host families' } };
+  }
+
+  if (await isBlockedBetween(userId, targetUserId)) {
+    return { error: { status: 403, message: 'You cannot match with this user' } };
+  }
+
+  const hostId = userRole === 'HOST_FAMILY' ? userId : targetUserId;
+  const auPairId = userRole === 'AU_PAIR' ? userId : targetUserId;
+
+  const existingMatch = await prisma.match.findUnique({
+    where: { hostId_auPairId: { hostId, auPairId } }
+  });
+
+  if (existingMatch && !['REJECTED', 'EXPIRED'].includes(existingMatch.status)) {
+    return { error: { status: 400, message: 'Match already exists between these users' } };
+  }
+
+  if (existingMatch && isInRejectionCooldown(existingMatch)) {
+    return {
+      error: {
+        status: 400,
+        message: `This match was declined recently. You can try again ${getRejectionCooldownDays()} days after it was declined.`
+      }
+    };
+  }
+
+  return { targetUser, hostId, auPairId };
+};
+
+// Score the pair with the active scoring config
+const scorePair = async (
+  currentUser: { role: UserRole; auPairProfile: AuPairProfile | null; hostFamilyProfile: HostFamilyProfile | null },
+  targetUser: { auPairProfile: AuPairProfile | null; hostFamilyProfile: HostFamilyProfile | null }
+) => {
+  const config = await getActiveScoringConfig();
+  let breakdown: MatchScoreBreakdown | null = null;
+  if (currentUser.role === 'AU_PAIR' && currentUser.auPairProfile && targetUser.hostFamilyProfile) {
+    breakdown = calculateMatchScoreBreakdown(currentUser.auPairProfile, targetUser.hostFamilyProfile, config);
+  } else if (currentUser.role === 'HOST_FAMILY' && currentUser.hostFamilyProfile && targetUser.auPairProfile) {
+    breakdown = calculateMatchScoreBreakdown(targetUser.auPairProfile, currentUser.hostFamilyProfile, config);
+  }
+
+  return {
+    matchScore: breakdown?.total ?? 0,
+    scoreBreakdown: breakdown ? JSON.stringify(breakdown) : null,
+    configVersion: config.version
+  };
+};
+
+const matchParticipantsInclude = {
+  host: {
+    select: {
+      id: true,
+      email: true,
+      hostFamilyProfile: {
+        select: { familyName: true, contactPersonName: true, profilePhotoUrl: true }
+      }
+    }
+  },
+  auPair: {
+    select: {
+      id: true,
+      email: true,
+      auPairProfile: {
+        select: { firstName: true, lastName: true, profilePhotoUrl: true }
+      }
+    }
+  }
+} satisfies Prisma.MatchInclude;
+
 // Get potential matches for current user
-router.get('/potential', async (req: AuthRequest, res) => {
+router.get('/potential', validate({
+  summary: 'Find potential matches',
+  description: 'Best score first. Blocked and passed users are never listed.',
+  query: {
+    ...matchCriteriaShape,
+    ...candidatesQuery,
+    includeExisting: field.boolean({ optional: true, description: 'Also list users with a pending, approved or recently rejected match' })
+  },
+  response: matchesPage
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
-    const limit = parseInt(req.query.limit as string) || 20;
+    const { limit, includeExisting } = req.query as Record<string, any>;
+
+    const { criteria, error: criteriaError } = parseMatchCriteria(req.query);
+    if (criteriaError) {
+      return res.status(400).json({ message: criteriaError });
+    }
+
+    const cursor = req.query.cursor ? parseCandidateCursor(req.query.cursor as string) : null;
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
 
-    const matches = await findMatches(userId, limit);
+    const { matches, nextCursor } = await findMatches(userId, { limit, cursor, criteria, includeExisting: includeExisting === true });
 
-    res.json({ matches });
+    res.json({ matches, nextCursor });
   } catch (error) {
     console.error('Get potential matches error:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
+// Get current user's saved searches
+router.get('/saved-searches', validate({
+  summary: 'List saved searches',
+  response: { searches: field.array(field.ref('SavedSearch')) }
+}), async (req: AuthRequest, res) => {
+  try {
+    const searches = await prisma.savedSearch.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({ searches: searches.map(serializeSavedSearch) });
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Save potential-match criteria
+router.post('/saved-searches', validate({
+  summary: 'Save a search',
+  body: {
+    name: savedSearchName,
+    criteria: field.object(matchCriteriaShape, { optional: true }),
+    notifyOnNew: field.boolean({ optional: true, default: true })
+  },
+  status: 201,
+  response: messageResponse({ search: field.ref('SavedSearch') })
+}), async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const { name, criteria: rawCriteria, notifyOnNew } = req.body;
+
+    const { criteria, error: criteriaError } = parseMatchCriteria(rawCriteria || {});
+    if (criteriaError) {
+      return res.status(400).json({ message: criteriaError });
+    }
+
+    const existingCount = await prisma.savedSearch.count({ where: { userId } });
+    if (existingCount >= MAX_SAVED_SEARCHES) {
+      return res.status(400).json({ message: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+    }
+
+    const search = await prisma.savedSearch.create({
+      data: {
+        userId,
+        name,
+        criteria: JSON.stringify(criteria),
+        notifyOnNew
+      }
+    });
+
+    res.status(201).json({ message: 'Search saved successfully', search: serializeSavedSearch(search) });
+  } catch (error) {
+    console.error('Create saved search error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Update a saved search
+router.put('/saved-searches/:searchId', validate({
+  summary: 'Update a saved search',
+  body: {
+    name: { ...savedSearchName, optional: true },
+    criteria: field.object(matchCriteriaShape, { optional: true }),
+    notifyOnNew: field.boolean({ optional: true })
+  },
+  response: messageResponse({ search: field.ref('SavedSearch') }),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { searchId } = req.params;
+    const { name, criteria: rawCriteria, notifyOnNew } = req.body;
+
+    const search = await prisma.savedSearch.findUnique({ where: { id: searchId } });
+    if (!search || search.userId !== req.user!.id) {
+      return res.status(404).json({ message: 'Saved search not found' });
+    }
+
+    const updateData: any = {};
+    if (name !== undefined) {
+      updateData.name = name;
+    }
+    if (rawCriteria !== undefined) {
+      const { criteria, error: criteriaError } = parseMatchCriteria(rawCriteria || {});
+      if (criteriaError) {
+        return res.status(400).json({ message: criteriaError });
+      }
+      updateData.criteria = JSON.stringify(criteria);
+    }
+    if (notifyOnNew !== undefined) {
+      updateData.notifyOnNew = notifyOnNew;
+    }
+
+    const updatedSearch = await prisma.savedSearch.update({
+      where: { id: searchId },
+      data: updateData
+    });
+
+    res.json({ message: 'Saved search updated successfully', search: serializeSavedSearch(updatedSearch) });
+  } catch (error) {
+    console.error('Update saved search error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete a saved search
+router.delete('/saved-searches/:searchId', validate({
+  summary: 'Delete a saved search',
+  response: messageResponse(),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { searchId } = req.params;
+
+    const search = await prisma.savedSearch.findUnique({ where: { id: searchId } });
+    if (!search || search.userId !== req.user!.id) {
+      return res.status(404).json({ message: 'Saved search not found' });
+    }
+
+    await prisma.savedSearch.delete({ where: { id: searchId } });
+
+    res.json({ message: 'Saved search deleted successfully' });
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Run a saved search
+router.get('/saved-searches/:searchId/results', validate({
+  summary: 'Run a saved search',
+  query: candidatesQuery,
+  response: { search: field.ref('SavedSearch'), ...matchesPage },
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const { searchId } = req.params;
+    const { limit } = req.query as Record<string, any>;
+
+    const search = await prisma.savedSearch.findUnique({ where: { id: searchId } });
+    if (!search || search.userId !== userId) {
+      return res.status(404).json({ message: 'Saved search not found' });
+    }
+
+    const cursor = req.query.cursor ? parseCandidateCursor(req.query.cursor as string) : null;
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    const { matches, nextCursor } = await findMatches(userId, { limit, cursor, criteria: getSavedSearchCriteria(search) });
+
+    res.json({ search: serializeSavedSearch(search), matches, nextCursor });
+  } catch (error) {
+    console.error('Get saved search results error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Dismiss a suggestion (PASS) or block a user (BLOCK). Neither notifies the other user.
+const dismissUser = (type: 'PASS' | 'BLOCK') => async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.user!.id;
+    const { targetUserId } = req.body;
+
+    if (targetUserId === userId) {
+      return res.status(400).json({ message: type === 'PASS' ? 'Cannot pass on yourself' : 'Cannot block yourself' });
+    }
+
+    const targetUser = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { id: true }
+    });
+
+    if (!targetUser) {
+      return res.status(404).json({ message: 'Target user not found' });
+    }
+
+    // A pass never downgrades an existing block
+    const existing = await prisma.matchDismissal.findUnique({
+      where: { userId_targetUserId: { userId, targetUserId } }
+    });
+
+    if (existing && (existing.type === type || existing.type === 'BLOCK')) {
+      return res.json({ message: type === 'PASS' ? 'Suggestion dismissed' : 'User blocked', dismissal: existing });
+    }
+
+    const dismissal = await prisma.matchDismissal.upsert({
+      where: { userId_targetUserId: { userId, targetUserId } },
+      update: { type },
+      create: { userId, targetUserId, type }
+    });
+
+    res.status(201).json({ message: type === 'PASS' ? 'Suggestion dismissed' : 'User blocked', dismissal });
+  } catch (error) {
+    console.error(type === 'PASS' ? 'Pass on match error:' : 'Block user error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Hide a suggested user without sending a rejection
+router.post('/pass', validate({
+  summary: 'Dismiss a suggested user',
+  body: targetUserBody,
+  status: 201,
+  response: messageResponse({ dismissal: field.ref('MatchDismissal') }),
+  errors: [404]
+}), dismissUser('PASS'));
+
+// Block a user: neither side is suggested to the other or can send a match request
+router.post('/block', validate({
+  summary: 'Block a user',
+  body: targetUserBody,
+  status: 201,
+  response: messageResponse({ dismissal: field.ref('MatchDismissal') }),
+  errors: [404]
+}), dismissUser('BLOCK'));
+
+// Like a user in the double opt-in flow. The other side is not told about a like;
+// once they like back, the match is created as APPROVED and both are notified.
+router.post('/like', validate({
+  summary: 'Like a user',
+  description: 'When the other user has already liked back, the match is created as APPROVED and mutual is true.',
+  body: targetUserBody,
+  status: 201,
+  response: messageResponse({ mutual: field.boolean(), match: field.ref('Match', { optional: true }) }),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const userRole = req.user!.role;
+    const { targetUserId } = req.body;
+
+    const check = await checkMatchTarget(userId, userRole, targetUserId);
+    if (check.error) {
+      return res.status(check.error.status).json({ message: check.error.message });
+    }
+    const { targetUser, hostId, auPairId } = check;
+
+    await prisma.matchLike.upsert({
+      where: { userId_targetUserId: { userId, targetUserId } },
+      update: {},
+      create: { userId, targetUserId }
+    });
+
+    // Liking undoes an earlier pass
+    await prisma.matchDismissal.deleteMany({
+      where: { userId, targetUserId, type: 'PASS' }
+    });
+
+    const likedBack = await prisma.matchLike.findUnique({
+      where: { userId_targetUserId: { userId: targetUserId, targetUserId: userId } }
+    });
+
+    if (!likedBack) {
+      return res.status(201).json({ message: 'Like saved', mutual: false });
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        auPairProfile: true,
+        hostFamilyProfile: true
+      }
+    });
+
+    const matchData = {
+      ...await scorePair(currentUser!, targetUser),
+      initiatedBy: userRole,
+      status: 'APPROVED' as const,
+      respondedAt: new Date(),
+      expiresAt: null
+    };
+
+    // The likes are settled by the match (or reopen an expired or rejected one)
+    const [match] = await prisma.$transaction([
+      prisma.match.upsert({
+        where: { hostId_auPairId: { hostId, auPairId } },
+        update: matchData,
+        create: { hostId, auPairId, ...matchData },
+        include: matchParticipantsInclude
+      }),
+      prisma.matchLike.deleteMany({
+        where: {
+          OR: [
+            { userId, targetUserId },
+            { userId: targetUserId, targetUserId: userId }
+          ]
+        }
+      })
+    ]);
+
+    const serialized = serializeMatch(match);
+
+    for (const [recipientId, other] of [[userId, targetUser], [targetUserId, currentUser!]] as const) {
+      io.to(`user_${recipientId}`).emit('mutual_match', { match: serialized });
+
+      await notifyUser(recipientId, 'MUTUAL_MATCH', {
+        title: "It's a match!",
+        body: `You and ${getDisplayName(other)} liked each other`,
+        data: { matchId: match.id, otherUserId: other.id },
+        email: {
+          template: 'mutualMatch',
+          data: { otherName: getDisplayName(other), url: frontendUrl('/messages') }
+        }
+      });
+    }
+
+    res.status(201).json({ message: "It's a match!", mutual: true, match: serialized });
+  } catch (error) {
+    console.error('Like user error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Withdraw a like that has not been returned yet
+router.delete('/like/:targetUserId', validate({
+  summary: 'Withdraw a like',
+  response: messageResponse(),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { count } = await prisma.matchLike.deleteMany({
+      where: { userId: req.user!.id, targetUserId: req.params.targetUserId }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ message: 'Like not found' });
+    }
+
+    res.json({ message: 'Like removed successfully' });
+  } catch (error) {
+    console.error('Delete like error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get users the current user passed on or blocked
+router.get('/dismissals', validate({
+  summary: 'List passed and blocked users',
+  query: {
+    type: field.enum(['PASS', 'BLOCK'], { optional: true })
+  },
+  response: { dismissals: field.array(field.ref('MatchDismissal')) }
+}), async (req: AuthRequest, res) => {
+  try {
+    const { type } = req.query;
+
+    const dismissals = await prisma.matchDismissal.findMany({
+      where: {
+        userId: req.user!.id,
+        ...(type && { type: type as 'PASS' | 'BLOCK' })
+      },
+      include: {
+        targetUser: {
+          select: {
+            id: true,
+            role: true,
+            auPairProfile: {
+              select: { firstName: true, lastName: true, profilePhotoUrl: true }
+            },
+            hostFamilyProfile: {
+              select: { familyName: true, contactPersonName: true, profilePhotoUrl: true }
+            }
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({ dismissals });
+  } catch (error) {
+    console.error('Get dismissals error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Undo a pass or unblock a user
+router.delete('/dismissals/:targetUserId', validate({
+  summary: 'Undo a pass or unblock a user',
+  response: messageResponse(),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { count } = await prisma.matchDismissal.deleteMany({
+      where: { userId: req.user!.id, targetUserId: req.params.targetUserId }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ message: 'Dismissal not found' });
+    }
+
+    res.json({ message: 'Dismissal removed successfully' });
+  } catch (error) {
+    console.error('Delete dismissal error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 // Get user's existing matches
-router.get('/my-matches', async (req: AuthRequest, res) => {
+router.get('/my-matches', validate({
+  summary: "List the current user's matches",
+  query: {
+    status: field.enum(['PENDING', 'APPROVED', 'REJECTED', 'EXPIRED'], { optional: true })
+  },
+  response: { matches: field.array(field.ref('Match')) }
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
-    const status = req.query.status as string;
+    const { status } = req.query;
 
     const whereClause: any = {
       OR: [
@@ -60,7 +613,13 @@ router.get('/my-matches', async (req: AuthRequest, res) => {
       orderBy: { createdAt: 'desc' }
     });
 
-    res.json({ matches });
+    res.json({
+      matches: matches.map(match => serializeMatch({
+        ...match,
+        host: serializeUserProfiles(match.host),
+        auPair: serializeUserProfiles(match.auPair)
+      }))
+    });
   } catch (error) {
     console.error('Get my matches error:', error);
     res.status(500).json({ message: 'Internal server error' });
@@ -68,54 +627,27 @@ router.get('/my-matches', async (req: AuthRequest, res) => {
 });
 
 // Create a match (send match request)
-router.post('/', async (req: AuthRequest, res) => {
+router.post('/', validate({
+  summary: 'Send a match request',
+  description: 'Reopens an expired match, or a rejected one after its cooldown.',
+  body: {
+    ...targetUserBody,
+    notes: matchNotes
+  },
+  status: 201,
+  response: messageResponse({ match: field.ref('Match') }),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
     const userRole = req.user!.role;
     const { targetUserId, notes } = req.body;
 
-    if (!targetUserId) {
-      return res.status(400).json({ message: 'Target user ID is required' });
-    }
-
-    if (targetUserId === userId) {
-      return res.status(400).json({ message: 'Cannot match with yourself' });
-    }
-
-    // Verify target user exists and has opposite role
-    const targetUser = await prisma.user.findUnique({
-      where: { id: targetUserId },
-      select: { 
-        id: true, 
-        role: true, 
-        isActive: true,
-        auPairProfile: true,
-        hostFamilyProfile: true
-      }
-    });
-
-    if (!targetUser || !targetUser.isActive) {
-      return res.status(404).json({ message: 'Target user not found or inactive' });
-    }
-
-    // Verify roles are compatible
-    if ((userRole === 'AU_PAIR' && targetUser.role !== 'HOST_FAMILY') ||
-        (userRole === 'HOST_FAMILY' && targetUser.role !== 'AU_PAIR')) {
-      return res.status(400).json({ message: 'Can only match au pairs with host families' });
-    }
-
-    // Check if match already exists
-    const existingMatch = await prisma.match.findFirst({
-      where: {
-        OR: [
-          { hostId: userRole === 'HOST_FAMILY' ? userId : targetUserId, auPairId: userRole === 'AU_PAIR' ? userId : targetUserId }
-        ]
-      }
-    });
-
-    if (existingMatch) {
-      return res.status(400).json({ message: 'Match already exists between these users' });
+    const check = await checkMatchTarget(userId, userRole, targetUserId);
+    if (check.error) {
+      return res.status(check.error.status).json({ message: check.error.message });
     }
+    const { targetUser, hostId, auPairId } = check;
 
     // Get profiles for match score calculation
     const currentUser = await prisma.user.findUnique({
@@ -126,47 +658,40 @@ router.post('/', async (req: AuthRequest, res) => {
       }
     });
 
-    // Calculate match score
-    let matchScore = 0;
-    if (userRole === 'AU_PAIR' && currentUser?.auPairProfile && targetUser.hostFamilyProfile) {
-      matchScore = calculateMatchScore(currentUser.auPairProfile, targetUser.hostFamilyProfile);
-    } else if (userRole === 'HOST_FAMILY' && currentUser?.hostFamilyProfile && targetUser.auPairProfile) {
-      matchScore = calculateMatchScore(targetUser.auPairProfile, currentUser.hostFamilyProfile);
-    }
+    const matchData = {
+      ...await scorePair(currentUser!, targetUser),
+      initiatedBy: userRole,
+      notes,
+      status: 'PENDING' as const,
+      respondedAt: null,
+      expiresAt: getMatchExpiryDate(),
+      remindersSent: 0
+    };
 
-    // Create match
-    const match = await prisma.match.create({
-      data: {
-        hostId: userRole === 'HOST_FAMILY' ? userId : targetUserId,
-        auPairId: userRole === 'AU_PAIR' ? userId : targetUserId,
-        matchScore,
-        initiatedBy: userRole,
-        notes,
-        status: 'PENDING'
-      },
-      include: {
-        host: {
-          select: {
-            id: true,
-            email: true,
-            hostFamilyProfile: {
-              select: { familyName: true, contactPersonName: true, profilePhotoUrl: true }
-            }
-          }
-        },
-        auPair: {
-          select: {
-            id: true,
-            email: true,
-            auPairProfile: {
-              select: { firstName: true, lastName: true, profilePhotoUrl: true }
-            }
-          }
-        }
+    // Create match, or reopen the rejected or expired one
+    const match = await prisma.match.upsert({
+      where: { hostId_auPairId: { hostId, auPairId } },
+      update: matchData,
+      create: { hostId, auPairId, ...matchData },
+      include: matchParticipantsInclude
+    });
+
+    // Sending a request undoes an earlier pass
+    await prisma.matchDismissal.deleteMany({
+      where: { userId, targetUserId, type: 'PASS' }
+    });
+
+    await notifyUser(targetUserId, 'MATCH_REQUEST', {
+      title: 'New match request',
+      body: `${getDisplayName(currentUser!)} wants to match with you`,
+      data: { matchId: match.id, fromUserId: userId },
+      email: {
+        template: 'matchRequest',
+        data: { senderName: getDisplayName(currentUser!), url: frontendUrl('/matches') }
       }
     });
 
-    res.status(201).json({ message: 'Match request sent successfully', match });
+    res.status(201).json({ message: 'Match request sent successfully', match: serializeMatch(match) });
   } catch (error) {
     console.error('Create match error:', error);
     res.status(500).json({ message: 'Internal server error' });
@@ -174,16 +699,21 @@ router.post('/', async (req: AuthRequest, res) => {
 });
 
 // Update match status (approve/reject)
-router.put('/:matchId/status', async (req: AuthRequest, res) => {
+router.put('/:matchId/status', validate({
+  summary: 'Approve or reject a match request',
+  description: 'Only the side that received a pending request can answer it.',
+  body: {
+    status: field.enum(['APPROVED', 'REJECTED']),
+    notes: matchNotes
+  },
+  response: messageResponse({ match: field.ref('Match') }),
+  errors: [403, 404, 409]
+}), async (req: AuthRequest, res) => {
   try {
     const { matchId } = req.params;
     const { status, notes } = req.body;
     const userId = req.user!.id;
 
-    if (!['APPROVED', 'REJECTED'].includes(status)) {
-      return res.status(400).json({ message: 'Status must be APPROVED or REJECTED' });
-    }
-
     // Find the match
     const match = await prisma.match.findUnique({
       where: { id: matchId },
@@ -202,14 +732,40 @@ router.put('/:matchId/status', async (req: AuthRequest, res) => {
       return res.status(403).json({ message: 'You can only update matches you are part of' });
     }
 
-    // Update match status
-    const updatedMatch = await prisma.match.update({
-      where: { id: matchId },
-      data: { 
+    // The requesting side can't accept or decline its own request
+    if (req.user!.role === match.initiatedBy) {
+      return res.status(403).json({ message: 'You cannot answer your own match request' });
+    }
+
+    // expireMatches only runs periodically, so check the deadline here as well
+    const now = new Date();
+    if (match.status === 'EXPIRED' || (match.status === 'PENDING' && match.expiresAt && match.expiresAt <= now)) {
+      return res.status(400).json({ message: 'This match request has expired' });
+    }
+
+    // Answered requests are final; a declined one can only be requested again after the cooldown
+    if (match.status !== 'PENDING') {
+      return res.status(409).json({ message: 'This match request has already been answered' });
+    }
+
+    // Update match status, unless another answer or the expiry got there first
+    const { count } = await prisma.match.updateMany({
+      where: { id: matchId, status: 'PENDING', OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+      data: {
         status,
         notes: notes || match.notes,
-        updatedAt: new Date()
-      },
+        respondedAt: now,
+        expiresAt: null,
+        updatedAt: now
+      }
+    });
+
+    if (count === 0) {
+      return res.status(409).json({ message: 'This match request has already been answered' });
+    }
+
+    const updatedMatch = await prisma.match.findUniqueOrThrow({
+      where: { id: matchId },
       include: {
         host: {
           select: {
@@ -232,7 +788,25 @@ router.put('/:matchId/status', async (req: AuthRequest, res) => {
       }
     });
 
-    res.json({ message: 'Match status updated successfully', match: updatedMatch });
+    // Let the other party know
+    const otherUserId = userId === match.hostId ? match.auPairId : match.hostId;
+    const updaterName = userId === match.hostId
+      ? getDisplayName(updatedMatch.host)
+      : getDisplayName(updatedMatch.auPair);
+
+    await notifyUser(otherUserId, status === 'APPROVED' ? 'MATCH_APPROVED' : 'MATCH_REJECTED', {
+      title: status === 'APPROVED' ? "It's a match!" : 'Match request declined',
+      body: status === 'APPROVED'
+        ? `${updaterName} accepted your match request`
+        : `${updaterName} declined your match request`,
+      data: { matchId: match.id, fromUserId: userId },
+      email: {
+        template: 'matchStatus',
+        data: { otherName: updaterName, approved: status === 'APPROVED', url: frontendUrl('/matches') }
+      }
+    });
+
+    res.json({ message: 'Match status updated successfully', match: serializeMatch(updatedMatch) });
   } catch (error) {
     console.error('Update match status error:', error);
     res.status(500).json({ message: 'Internal server error' });
@@ -240,7 +814,11 @@ router.put('/:matchId/status', async (req: AuthRequest, res) => {
 });
 
 // Delete a match
-router.delete('/:matchId', async (req: AuthRequest, res) => {
+router.delete('/:matchId', validate({
+  summary: 'Delete a match',
+  response: messageResponse(),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const { matchId } = req.params;
     const userId = req.user!.id;
@@ -1,11 +1,27 @@
 import express from 'express';
-import { prisma } from '../index';
+import { prisma } from '../db';
 import { AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { field, messageResponse, paginationQuery } from '../utils/validation';
+import { notifyUser, getMessagePreview } from '../utils/notifications';
+import { getDisplayName } from '../utils/users';
+import { frontendUrl } from '../utils/email';
 
 const router = express.Router();
 
 // Get conversations for current user
-router.get('/conversations', async (req: AuthRequest, res) => {
+router.get('/conversations', validate({
+  summary: 'List conversations',
+  description: 'One entry per user, with the latest message first.',
+  response: {
+    conversations: field.array(field.object({
+      userId: field.string(),
+      user: field.ref('User'),
+      lastMessage: field.ref('Message'),
+      unreadCount: field.integer()
+    }))
+  }
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
 
@@ -81,12 +97,17 @@ router.get('/conversations', async (req: AuthRequest, res) => {
 });
 
 // Get messages between current user and another user
-router.get('/conversation/:userId', async (req: AuthRequest, res) => {
+router.get('/conversation/:userId', validate({
+  summary: 'List messages with a user',
+  description: 'Oldest first within the page; page 1 has the newest messages.',
+  query: paginationQuery(50),
+  response: { messages: field.array(field.ref('Message')) },
+  errors: [403]
+}), async (req: AuthRequest, res) => {
   try {
     const currentUserId = req.user!.id;
     const { userId: otherUserId } = req.params;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 50;
+    const { page, limit } = req.query as Record<string, any>;
     const offset = (page - 1) * limit;
 
     // Verify that users have an approved match
@@ -148,15 +169,21 @@ router.get('/conversation/:userId', async (req: AuthRequest, res) => {
 });
 
 // Send a message
-router.post('/send', async (req: AuthRequest, res) => {
+router.post('/send', validate({
+  summary: 'Send a message',
+  description: 'Only to users with an approved match.',
+  body: {
+    receiverId: field.string(),
+    content: field.string({ trim: true, maxLength: 5000 })
+  },
+  status: 201,
+  response: messageResponse({ data: field.ref('Message') }),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const senderId = req.user!.id;
     const { receiverId, content } = req.body;
 
-    if (!receiverId || !content?.trim()) {
-      return res.status(400).json({ message: 'Receiver ID and content are required' });
-    }
-
     // Verify receiver exists
     const receiver = await prisma.user.findUnique({
       where: { id: receiverId },
@@ -185,7 +212,7 @@ router.post('/send', async (req: AuthRequest, res) => {
       data: {
         senderId,
         receiverId,
-        content: content.trim()
+        content
       },
       include: {
         sender: {
@@ -204,6 +231,19 @@ router.post('/send', async (req: AuthRequest, res) => {
       }
     });
 
+    const senderName = getDisplayName(message.sender);
+    const preview = getMessagePreview(message.content);
+
+    await notifyUser(receiverId, 'NEW_MESSAGE', {
+      title: 'New message',
+      body: `${senderName}: ${preview}`,
+      data: { messageId: message.id, fromUserId: senderId },
+      email: {
+        template: 'newMessage',
+        data: { senderName, preview, url: frontendUrl('/messages') }
+      }
+    });
+
     res.status(201).json({ message: 'Message sent successfully', data: message });
   } catch (error) {
     console.error('Send message error:', error);
@@ -212,15 +252,17 @@ router.post('/send', async (req: AuthRequest, res) => {
 });
 
 // Mark messages as read
-router.put('/mark-read', async (req: AuthRequest, res) => {
+router.put('/mark-read', validate({
+  summary: 'Mark messages from a user as read',
+  body: {
+    senderId: field.string()
+  },
+  response: messageResponse()
+}), async (req: AuthRequest, res) => {
   try {
     const receiverId = req.user!.id;
     const { senderId } = req.body;
 
-    if (!senderId) {
-      return res.status(400).json({ message: 'Sender ID is required' });
-    }
-
     await prisma.message.updateMany({
       where: {
         senderId,
@@ -238,7 +280,10 @@ router.put('/mark-read', async (req: AuthRequest, res) => {
 });
 
 // Get unread message count
-router.get('/unread-count', async (req: AuthRequest, res) => {
+router.get('/unread-count', validate({
+  summary: 'Count unread messages',
+  response: { unreadCount: field.integer() }
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
 
@@ -257,7 +302,11 @@ router.get('/unread-count', async (req: AuthRequest, res) => {
 });
 
 // Delete a message (only sender can delete)
-router.delete('/:messageId', async (req: AuthRequest, res) => {
+router.delete('/:messageId', validate({
+  summary: 'Delete a sent message',
+  response: messageResponse(),
+  errors: [403, 404]
+}), async (req: AuthRequest, res) => {
   try {
     const { messageId } = req.params;
     const userId = req.user!.id;
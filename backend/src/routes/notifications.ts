@@ -0,0 +1,215 @@
+import express from 'express';
+import { prisma } from '../db';
+import { AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { SchemaShape, field, messageResponse, paginationQuery, paginationResponse } from '../utils/validation';
+import { serializeNotification, getUnreadNotificationCount } from '../utils/notifications';
+import {
+  ALLOWED_MODES,
+  NotificationCategory,
+  getNotificationPreferences,
+  serializePreferences,
+  isValidTimeZone,
+  isValidTimeOfDay
+} from '../utils/notificationPreferences';
+
+const router = express.Router();
+
+const timeOfDay = field.string({ nullable: true, pattern: /^([01]\d|2[0-3]):[0-5]\d$/, description: 'HH:MM in timeZone' });
+
+const preferencesShape: SchemaShape = {
+  ...Object.fromEntries(Object.entries(ALLOWED_MODES).map(([category, modes]) => [`${category}Email`, field.enum(modes)])),
+  timeZone: field.string({ description: 'IANA time zone, e.g. Europe/Berlin' }),
+  quietHoursStart: timeOfDay,
+  quietHoursEnd: timeOfDay,
+  digestHour: field.integer({ min: 0, max: 23 })
+};
+
+// Every field is optional when updating
+const preferencesBody = Object.fromEntries(
+  Object.entries(preferencesShape).map(([name, schema]) => [name, { ...schema, optional: true }])
+);
+
+// Get current user's notifications
+router.get('/', validate({
+  summary: 'List notifications',
+  query: { ...paginationQuery(), unreadOnly: field.boolean({ optional: true, default: false }) },
+  response: {
+    notifications: field.array(field.ref('Notification')),
+    unreadCount: field.integer(),
+    pagination: paginationResponse
+  }
+}), async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const { page, limit, unreadOnly } = req.query as Record<string, any>;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = { userId };
+    if (unreadOnly) {
+      whereClause.isRead = false;
+    }
+
+    const [notifications, totalCount, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: whereClause,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.notification.count({ where: whereClause }),
+      getUnreadNotificationCount(userId)
+    ]);
+
+    res.json({
+      notifications: notifications.map(serializeNotification),
+      unreadCount,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        pages: Math.ceil(totalCount / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get unread notification count
+router.get('/unread-count', validate({
+  summary: 'Count unread notifications',
+  response: { unreadCount: field.integer() }
+}), async (req: AuthRequest, res) => {
+  try {
+    const unreadCount = await getUnreadNotificationCount(req.user!.id);
+
+    res.json({ unreadCount });
+  } catch (error) {
+    console.error('Get unread notification count error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get current user's notification preferences
+router.get('/preferences', validate({
+  summary: 'Get notification preferences',
+  response: { preferences: field.object(preferencesShape) }
+}), async (req: AuthRequest, res) => {
+  try {
+    const preferences = await getNotificationPreferences(req.user!.id);
+
+    res.json({ preferences: serializePreferences(preferences) });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Update notification preferences (only the provided fields change)
+router.put('/preferences', validate({
+  summary: 'Update notification preferences',
+  description: 'Only the provided fields change. Quiet hours are set together, or cleared by sending both as null.',
+  body: preferencesBody,
+  response: messageResponse({ preferences: field.object(preferencesShape) })
+}), async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const { timeZone, quietHoursStart, quietHoursEnd, digestHour } = req.body;
+    const updateData: any = {};
+
+    for (const category of Object.keys(ALLOWED_MODES) as NotificationCategory[]) {
+      const mode = req.body[`${category}Email`];
+      if (mode !== undefined) {
+        updateData[`${category}Email`] = mode;
+      }
+    }
+
+    if (timeZone !== undefined) {
+      if (!isValidTimeZone(timeZone)) {
+        return res.status(400).json({ message: 'Invalid time zone' });
+      }
+      updateData.timeZone = timeZone;
+    }
+
+    // Quiet hours are set or cleared together
+    if (quietHoursStart !== undefined || quietHoursEnd !== undefined) {
+      const clearing = quietHoursStart === null && quietHoursEnd === null;
+      const valid = typeof quietHoursStart === 'string' && typeof quietHoursEnd === 'string'
+        && isValidTimeOfDay(quietHoursStart) && isValidTimeOfDay(quietHoursEnd);
+
+      if (!clearing && !valid) {
+        return res.status(400).json({ message: 'Quiet hours need both a start and an end in HH:MM format, or null to disable' });
+      }
+      updateData.quietHoursStart = quietHoursStart;
+      updateData.quietHoursEnd = quietHoursEnd;
+    }
+
+    if (digestHour !== undefined) {
+      updateData.digestHour = digestHour;
+    }
+
+    const preferences = await prisma.notificationPreference.upsert({
+      where: { userId },
+      update: updateData,
+      create: { userId, ...updateData }
+    });
+
+    res.json({ message: 'Notification preferences updated successfully', preferences: serializePreferences(preferences) });
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Mark all notifications as read
+router.put('/read-all', validate({
+  summary: 'Mark all notifications as read',
+  response: messageResponse({ updated: field.integer() })
+}), async (req: AuthRequest, res) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: req.user!.id, isRead: false },
+      data: { isRead: true, readAt: new Date() }
+    });
+
+    res.json({ message: 'Notifications marked as read', updated: count });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Mark a notification as read
+router.put('/:notificationId/read', validate({
+  summary: 'Mark a notification as read',
+  response: messageResponse({ notification: field.ref('Notification') }),
+  errors: [404]
+}), async (req: AuthRequest, res) => {
+  try {
+    const { notificationId } = req.params;
+
+    const notification = await prisma.notification.findUnique({
+      where: { id: notificationId }
+    });
+
+    if (!notification || notification.userId !== req.user!.id) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+
+    const updatedNotification = notification.isRead
+      ? notification
+      : await prisma.notification.update({
+        where: { id: notificationId },
+        data: { isRead: true, readAt: new Date() }
+      });
+
+    res.json({ message: 'Notification marked as read', notification: serializeNotification(updatedNotification) });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,341 @@
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { prisma } from '../db';
+import { getOidcProvider, listOidcProviders } from '../config/oidc';
+import {
+  buildAuthorizationUrl,
+  exchangeCodeForClaims,
+  generatePkcePair,
+  generateRandomToken,
+  readCookie
+} from '../utils/oidc';
+import {
+  generateTwoFactorChallengeToken,
+  generateOidcSignupToken,
+  verifyOidcSignupToken
+} from '../utils/jwt';
+import { createSession, revokeAllSessions } from '../utils/sessions';
+import { loginProfileInclude, loginResponse, stripSensitiveFields } from '../utils/users';
+import { validate } from '../middleware/validate';
+import { field } from '../utils/validation';
+import { getAuthConfig } from '../config/auth';
+
+const router = express.Router();
+
+const AUTH_REQUEST_TTL_MS = 10 * 60 * 1000; // 10 minutes to finish the provider login
+
+// The state is also kept in a cookie, so a login can only be finished in the browser that
+// started it. Otherwise anyone could send a victim their own code and state (login CSRF).
+const STATE_COOKIE = 'oidc_state';
+const stateCookieOptions: express.CookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path: '/api/auth/oidc'
+};
+
+const providerParams = { provider: field.string({ description: 'Provider name from /providers' }) };
+
+// Issue tokens for a user resolved from an external identity (same response shape as /login)
+const respondWithLogin = async (req: express.Request, res: express.Response, userId: string, status = 200) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: loginProfileInclude
+  });
+
+  if (!user || !user.isActive) {
+    return res.status(401).json({ message: 'Account deactivated' });
+  }
+
+  // Same rule as /login: providers may share an address they haven't verified
+  if (getAuthConfig().requireEmailVerification && !user.isEmailVerified) {
+    return res.status(403).json({
+      message: 'Please verify your email address before logging in',
+      emailNotVerified: true
+    });
+  }
+
+  if (user.twoFactorEnabled) {
+    return res.json({
+      message: 'Two-factor authentication required',
+      twoFactorRequired: true,
+      challengeToken: generateTwoFactorChallengeToken(user.id)
+    });
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLogin: new Date() }
+  });
+
+  const { accessToken, refreshToken } = await createSession(user.id, req);
+
+  res.status(status).json({
+    message: 'Login successful',
+    user: stripSensitiveFields(user),
+    accessToken,
+    refreshToken
+  });
+};
+
+// Social sign-up users never log in with a password, so give them an unusable one
+// (they can still set one through forgot-password)
+const unusablePassword = () => bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12);
+
+const createUserFromIdentity = async (
+  identity: { provider: string; subject: string; email: string; emailVerified: boolean },
+  role: 'AU_PAIR' | 'HOST_FAMILY'
+) => {
+  const password = await unusablePassword();
+
+  return prisma.user.create({
+    data: {
+      email: identity.email,
+      password,
+      role,
+      isEmailVerified: identity.emailVerified,
+      identities: {
+        create: {
+          provider: identity.provider,
+          subject: identity.subject,
+          email: identity.email
+        }
+      }
+    },
+    select: { id: true }
+  });
+};
+
+// List configured providers
+router.get('/providers', validate({
+  summary: 'List single sign-on providers',
+  response: { providers: field.array(field.string()) }
+}), (req, res) => {
+  res.json({ providers: listOidcProviders() });
+});
+
+// Start the authorization-code flow; the frontend redirects the browser to authorizationUrl
+router.get('/:provider/authorize', validate({
+  summary: 'Start a single sign-on login',
+  description: 'Sets an httpOnly state cookie, so call this and /callback with credentials included.',
+  params: providerParams,
+  response: { authorizationUrl: field.string({ format: 'uri' }), state: field.string() },
+  errors: [404]
+}), async (req, res) => {
+  try {
+    const provider = getOidcProvider(req.params.provider);
+
+    if (!provider) {
+      return res.status(404).json({ message: 'Unknown login provider' });
+    }
+
+    const state = generateRandomToken();
+    const nonce = generateRandomToken();
+    const { codeVerifier, codeChallenge } = generatePkcePair();
+
+    await prisma.oidcAuthRequest.create({
+      data: {
+        state,
+        provider: provider.name,
+        nonce,
+        codeVerifier,
+        expiresAt: new Date(Date.now() + AUTH_REQUEST_TTL_MS)
+      }
+    });
+
+    const authorizationUrl = await buildAuthorizationUrl(provider, { state, nonce, codeChallenge });
+
+    res.cookie(STATE_COOKIE, state, { ...stateCookieOptions, maxAge: AUTH_REQUEST_TTL_MS });
+    res.json({ authorizationUrl, state });
+  } catch (error) {
+    console.error('OIDC authorize error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Finish the flow with the code and state the provider sent back to the frontend
+router.post('/:provider/callback', validate({
+  summary: 'Finish a single sign-on login',
+  description: 'Logs in, or links the identity to an account with the same verified email. First-time users without a role get a signupToken for /complete-signup instead.',
+  params: providerParams,
+  body: {
+    code: field.string(),
+    state: field.string(),
+    role: field.string({ optional: true, description: 'AU_PAIR or HOST_FAMILY, to create the account right away' })
+  },
+  response: {
+    ...loginResponse,
+    roleSelectionRequired: field.boolean({ optional: true }),
+    signupToken: field.string({ optional: true }),
+    email: field.string({ optional: true }),
+    name: field.string({ optional: true, nullable: true })
+  },
+  errors: [401, 403, 404, 409]
+}), async (req, res) => {
+  try {
+    const { code, state, role } = req.body;
+    const provider = getOidcProvider(req.params.provider);
+
+    if (!provider) {
+      return res.status(404).json({ message: 'Unknown login provider' });
+    }
+
+    // Single use: delete before exchanging so a replayed state fails
+    const authRequest = await prisma.oidcAuthRequest.findUnique({ where: { state } });
+    if (authRequest) {
+      await prisma.oidcAuthRequest.delete({ where: { state } });
+    }
+
+    const browserState = readCookie(req.headers.cookie, STATE_COOKIE);
+    res.clearCookie(STATE_COOKIE, stateCookieOptions);
+
+    if (
+      !authRequest ||
+      browserState !== state ||
+      authRequest.provider !== provider.name ||
+      authRequest.expiresAt < new Date()
+    ) {
+      return res.status(400).json({ message: 'Invalid or expired login request' });
+    }
+
+    let claims;
+    try {
+      claims = await exchangeCodeForClaims(provider, {
+        code,
+        codeVerifier: authRequest.codeVerifier,
+        nonce: authRequest.nonce
+      });
+    } catch (exchangeError) {
+      console.error('OIDC code exchange failed:', exchangeError);
+      return res.status(401).json({ message: 'Login with provider failed' });
+    }
+
+    // Returning user
+    const identity = await prisma.userIdentity.findUnique({
+      where: { provider_subject: { provider: provider.name, subject: claims.subject } }
+    });
+
+    if (identity) {
+      await prisma.userIdentity.update({
+        where: { id: identity.id },
+        data: { lastUsedAt: new Date(), email: claims.email }
+      });
+      return respondWithLogin(req, res, identity.userId);
+    }
+
+    if (!claims.email) {
+      return res.status(400).json({ message: 'The provider did not share an email address' });
+    }
+
+    // Existing account with the same email: link it, but only if the provider vouches for the address
+    const existingUser = await prisma.user.findUnique({
+      where: { email: claims.email },
+      select: { id: true, isEmailVerified: true }
+    });
+
+    if (existingUser) {
+      if (!claims.emailVerified) {
+        return res.status(409).json({
+          message: 'An account with this email already exists. Log in with your password to continue.'
+        });
+      }
+
+      // Nobody has proven they own an unverified account, so it may have been registered
+      // by someone else to take over the owner's later social login. The provider just
+      // proved ownership: drop the password, second factor and sessions set up before.
+      if (!existingUser.isEmailVerified) {
+        await prisma.user.update({
+          where: { id: existingUser.id },
+          data: {
+            isEmailVerified: true,
+            emailVerifyToken: null,
+            password: await unusablePassword(),
+            pendingEmail: null,
+            emailChangeToken: null,
+            emailChangeExpires: null,
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorRecoveryCodes: null,
+            twoFactorLastStep: null
+          }
+        });
+        await revokeAllSessions(existingUser.id, 'UNVERIFIED_ACCOUNT_CLAIMED');
+      }
+
+      await prisma.userIdentity.create({
+        data: {
+          userId: existingUser.id,
+          provider: provider.name,
+          subject: claims.subject,
+          email: claims.email
+        }
+      });
+
+      return respondWithLogin(req, res, existingUser.id);
+    }
+
+    const newIdentity = {
+      provider: provider.name,
+      subject: claims.subject,
+      email: claims.email,
+      emailVerified: claims.emailVerified
+    };
+
+    // First login: the user still has to choose between au pair and host family
+    if (!['AU_PAIR', 'HOST_FAMILY'].includes(role)) {
+      return res.json({
+        message: 'Choose a role to finish signing up',
+        roleSelectionRequired: true,
+        signupToken: generateOidcSignupToken(newIdentity),
+        email: claims.email,
+        name: claims.name
+      });
+    }
+
+    const user = await createUserFromIdentity(newIdentity, role);
+    return respondWithLogin(req, res, user.id, 201);
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Create the account for a first-time social login once a role has been chosen
+router.post('/complete-signup', validate({
+  summary: 'Create the account for a first single sign-on login',
+  body: { signupToken: field.string(), role: field.enum(['AU_PAIR', 'HOST_FAMILY']) },
+  status: 201,
+  response: loginResponse,
+  errors: [400, 401, 403]
+}), async (req, res) => {
+  try {
+    const { signupToken, role } = req.body;
+
+    let identity;
+    try {
+      identity = verifyOidcSignupToken(signupToken);
+    } catch (error) {
+      return res.status(401).json({ message: 'Invalid or expired signup token' });
+    }
+
+    const [existingIdentity, existingUser] = await Promise.all([
+      prisma.userIdentity.findUnique({
+        where: { provider_subject: { provider: identity.provider, subject: identity.subject } }
+      }),
+      prisma.user.findUnique({ where: { email: identity.email } })
+    ]);
+
+    if (existingIdentity || existingUser) {
+      return res.status(400).json({ message: 'User with this email already exists' });
+    }
+
+    const user = await createUserFromIdentity(identity, role);
+    return respondWithLogin(req, res, user.id, 201);
+  } catch (error) {
+    console.error('OIDC complete signup error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,11 +1,62 @@
 import express from 'express';
-import { prisma } from '../index';
+import { prisma } from '../db';
 import { AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { field, messageResponse } from '../utils/validation';
+import { scheduleCandidateRecompute } from '../utils/matchIndex';
+import { geocode, listRegions, listCountries, resolveCountryCode } from '../utils/geo';
+import {
+  AU_PAIR_LIST_FIELDS,
+  HOST_FAMILY_LIST_FIELDS,
+  serializeListFields,
+  serializeAuPairProfile,
+  serializeHostFamilyProfile,
+  listLanguages,
+  MAX_CHILD_AGE
+} from '../utils/profileFields';
+import { getProfileCompleteness } from '../utils/profileCompleteness';
 
 const router = express.Router();
 
+const optionalText = (maxLength: number) => field.string({ optional: true, nullable: true, maxLength });
+
+// Shared by both profile kinds
+const profileFields = {
+  bio: optionalText(5000),
+  currency: field.string({ optional: true, pattern: /^[A-Z]{3}$/, description: 'ISO 4217 code, defaults to USD' }),
+  profilePhotoUrl: field.string({ optional: true, nullable: true, format: 'uri' })
+};
+
+// Au pairs have an AuPairProfile, host families a HostFamilyProfile
+const roleProfile = field.any({ nullable: true, description: 'AuPairProfile or HostFamilyProfile, depending on the role; null until created' });
+
+// List entries are normalized (and unknown languages or countries rejected) by serializeListFields
+const listOf = (description: string) => field.array(field.string(), { optional: true, nullable: true, maxItems: 50, description });
+
 // Create or update Au Pair profile
-router.post('/au-pair', async (req: AuthRequest, res) => {
+router.post('/au-pair', validate({
+  summary: 'Create or update the au pair profile',
+  body: {
+    firstName: field.string({ trim: true, maxLength: 100 }),
+    lastName: field.string({ trim: true, maxLength: 100 }),
+    dateOfBirth: field.date(),
+    experience: optionalText(5000),
+    education: optionalText(2000),
+    videoUrl: field.string({ optional: true, nullable: true, format: 'uri' }),
+    hourlyRate: field.number({ optional: true, nullable: true, min: 0 }),
+    availableFrom: field.date({ optional: true, nullable: true }),
+    availableTo: field.date({ optional: true, nullable: true }),
+    preferredLocation: field.string({ optional: true, nullable: true, description: 'City name or "latitude,longitude"' }),
+    maxDistanceKm: field.number({ optional: true, nullable: true, min: 1 }),
+    languages: listOf('Language names or ISO 639-1 codes'),
+    skills: listOf('Free text, up to 100 characters each'),
+    preferredCountries: listOf('Country names or ISO 3166-1 codes'),
+    preferredRegions: listOf('Region names'),
+    ...profileFields
+  },
+  response: messageResponse({ profile: field.ref('AuPairProfile') }),
+  errors: [403]
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
     const {
@@ -13,24 +64,41 @@ router.post('/au-pair', async (req: AuthRequest, res) => {
       lastName,
       dateOfBirth,
       bio,
-      languages,
-      skills,
       experience,
       education,
       videoUrl,
-      preferredCountries,
       hourlyRate,
       currency,
       availableFrom,
       availableTo,
-      profilePhotoUrl
+      profilePhotoUrl,
+      preferredLocation,
+      maxDistanceKm
     } = req.body;
 
-    // Validation
-    if (!firstName || !lastName || !dateOfBirth) {
-      return res.status(400).json({ message: 'First name, last name, and date of birth are required' });
+    if (availableFrom && availableTo && availableFrom > availableTo) {
+      return res.status(400).json({ message: 'availableFrom must be before availableTo' });
+    }
+
+    // Location preferences are resolved against the offline gazetteer
+    const preferredPlace = preferredLocation ? geocode(preferredLocation) : null;
+    if (preferredLocation && !preferredPlace) {
+      return res.status(400).json({ message: `Unknown preferred location: ${preferredLocation}` });
+    }
+
+    // Languages, skills, countries and regions are validated and stored as JSON lists
+    const { data: listFields, error: listError } = serializeListFields(AU_PAIR_LIST_FIELDS, req.body);
+    if (listError) {
+      return res.status(400).json({ message: listError });
     }
 
+    const locationPreferences = {
+      preferredLocation: preferredPlace ? preferredPlace.city : null,
+      preferredLatitude: preferredPlace ? preferredPlace.latitude : null,
+      preferredLongitude: preferredPlace ? preferredPlace.longitude : null,
+      maxDistanceKm: maxDistanceKm ?? null
+    };
+
     // Check if user is an au pair
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -41,47 +109,34 @@ router.post('/au-pair', async (req: AuthRequest, res) => {
       return res.status(403).json({ message: 'Only au pairs can create au pair profiles' });
     }
 
+    const profileData = {
+      firstName,
+      lastName,
+      dateOfBirth,
+      bio,
+      experience,
+      education,
+      videoUrl,
+      hourlyRate: hourlyRate ?? null,
+      currency: currency || 'USD',
+      availableFrom: availableFrom ?? null,
+      availableTo: availableTo ?? null,
+      profilePhotoUrl,
+      ...listFields,
+      ...locationPreferences
+    };
+    const { percentage: completeness } = await getProfileCompleteness(prisma, userId, 'AU_PAIR', profileData);
+
     // Create or update profile
     const profile = await prisma.auPairProfile.upsert({
       where: { userId },
-      create: {
-        userId,
-        firstName,
-        lastName,
-        dateOfBirth: new Date(dateOfBirth),
-        bio,
-        languages: languages || [],
-        skills: skills || [],
-        experience,
-        education,
-        videoUrl,
-        preferredCountries: preferredCountries || [],
-        hourlyRate: hourlyRate ? parseFloat(hourlyRate) : null,
-        currency: currency || 'USD',
-        availableFrom: availableFrom ? new Date(availableFrom) : null,
-        availableTo: availableTo ? new Date(availableTo) : null,
-        profilePhotoUrl
-      },
-      update: {
-        firstName,
-        lastName,
-        dateOfBirth: new Date(dateOfBirth),
-        bio,
-        languages: languages || [],
-        skills: skills || [],
-        experience,
-        education,
-        videoUrl,
-        preferredCountries: preferredCountries || [],
-        hourlyRate: hourlyRate ? parseFloat(hourlyRate) : null,
-        currency: currency || 'USD',
-        availableFrom: availableFrom ? new Date(availableFrom) : null,
-        availableTo: availableTo ? new Date(availableTo) : null,
-        profilePhotoUrl
-      }
+      create: { userId, ...profileData, completeness },
+      update: { ...profileData, completeness }
     });
 
-    res.json({ message: 'Au pair profile saved successfully', profile });
+    scheduleCandidateRecompute(userId);
+
+    res.json({ message: 'Au pair profile saved successfully', profile: serializeAuPairProfile(profile) });
   } catch (error) {
     console.error('Au pair profile error:', error);
     res.status(500).json({ message: 'Internal server error' });
@@ -89,7 +144,27 @@ router.post('/au-pair', async (req: AuthRequest, res) => {
 });
 
 // Create or update Host Family profile
-router.post('/host-family', async (req: AuthRequest, res) => {
+router.post('/host-family', validate({
+  summary: 'Create or update the host family profile',
+  body: {
+    familyName: field.string({ trim: true, maxLength: 100 }),
+    contactPersonName: field.string({ trim: true, maxLength: 100 }),
+    location: field.string({ trim: true, maxLength: 200 }),
+    country: field.string({ trim: true, description: 'Country name or ISO 3166-1 code' }),
+    numberOfChildren: field.integer({ min: 1, max: 20 }),
+    childrenAges: field.array(field.integer({ min: 0, max: MAX_CHILD_AGE }), {
+      optional: true,
+      nullable: true,
+      description: 'One age per child'
+    }),
+    preferredLanguages: listOf('Language names or ISO 639-1 codes'),
+    requirements: optionalText(5000),
+    maxBudget: field.number({ optional: true, nullable: true, min: 0 }),
+    ...profileFields
+  },
+  response: messageResponse({ profile: field.ref('HostFamilyProfile') }),
+  errors: [403]
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
     const {
@@ -99,19 +174,26 @@ router.post('/host-family', async (req: AuthRequest, res) => {
       location,
       country,
       numberOfChildren,
-      childrenAges,
       requirements,
-      preferredLanguages,
       maxBudget,
       currency,
       profilePhotoUrl
     } = req.body;
 
-    // Validation
-    if (!familyName || !contactPersonName || !location || !country || !numberOfChildren) {
-      return res.status(400).json({ 
-        message: 'Family name, contact person, location, country, and number of children are required' 
-      });
+    const countryCode = resolveCountryCode(country);
+    if (!countryCode) {
+      return res.status(400).json({ message: `Unknown country: ${country}` });
+    }
+
+    // Children ages and preferred languages are validated and stored as JSON lists
+    const { data: listFields, error: listError } = serializeListFields(HOST_FAMILY_LIST_FIELDS, req.body);
+    if (listError) {
+      return res.status(400).json({ message: listError });
+    }
+
+    const childrenAges: number[] = JSON.parse(listFields!.childrenAges);
+    if (childrenAges.length > 0 && childrenAges.length !== numberOfChildren) {
+      return res.status(400).json({ message: 'Give one age per child (childrenAges must have numberOfChildren entries)' });
     }
 
     // Check if user is a host family
@@ -124,41 +206,41 @@ router.post('/host-family', async (req: AuthRequest, res) => {
       return res.status(403).json({ message: 'Only host families can create host family profiles' });
     }
 
+    // Place the family on the map when the offline gazetteer knows the location
+    const place = geocode(location, countryCode);
+    const geocodedLocation = {
+      city: place ? place.city : null,
+      region: place ? place.region : null,
+      latitude: place ? place.latitude : null,
+      longitude: place ? place.longitude : null
+    };
+
+    const profileData = {
+      familyName,
+      contactPersonName,
+      bio,
+      location,
+      country: countryCode,
+      numberOfChildren,
+      requirements,
+      maxBudget: maxBudget ?? null,
+      currency: currency || 'USD',
+      profilePhotoUrl,
+      ...listFields,
+      ...geocodedLocation
+    };
+    const { percentage: completeness } = await getProfileCompleteness(prisma, userId, 'HOST_FAMILY', profileData);
+
     // Create or update profile
     const profile = await prisma.hostFamilyProfile.upsert({
       where: { userId },
-      create: {
-        userId,
-        familyName,
-        contactPersonName,
-        bio,
-        location,
-        country,
-        numberOfChildren: parseInt(numberOfChildren),
-        childrenAges: childrenAges || [],
-        requirements,
-        preferredLanguages: preferredLanguages || [],
-        maxBudget: maxBudget ? parseFloat(maxBudget) : null,
-        currency: currency || 'USD',
-        profilePhotoUrl
-      },
-      update: {
-        familyName,
-        contactPersonName,
-        bio,
-        location,
-        country,
-        numberOfChildren: parseInt(numberOfChildren),
-        childrenAges: childrenAges || [],
-        requirements,
-        preferredLanguages: preferredLanguages || [],
-        maxBudget: maxBudget ? parseFloat(maxBudget) : null,
-        currency: currency || 'USD',
-        profilePhotoUrl
-      }
+      create: { userId, ...profileData, completeness },
+      update: { ...profileData, completeness }
     });
 
-    res.json({ message: 'Host family profile saved successfully', profile });
+    scheduleCandidateRecompute(userId);
+
+    res.json({ message: 'Host family profile saved successfully', profile: serializeHostFamilyProfile(profile) });
   } catch (error) {
     console.error('Host family profile error:', error);
     res.status(500).json({ message: 'Internal server error' });
@@ -166,7 +248,10 @@ router.post('/host-family', async (req: AuthRequest, res) => {
 });
 
 // Get current user's profile
-router.get('/me', async (req: AuthRequest, res) => {
+router.get('/me', validate({
+  summary: "Get the current user's profile",
+  response: { profile: roleProfile }
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
     const userRole = req.user!.role;
@@ -174,13 +259,15 @@ router.get('/me', async (req: AuthRequest, res) => {
     let profile = null;
 
     if (userRole === 'AU_PAIR') {
-      profile = await prisma.auPairProfile.findUnique({
+      const auPairProfile = await prisma.auPairProfile.findUnique({
         where: { userId }
       });
+      profile = auPairProfile && serializeAuPairProfile(auPairProfile);
     } else if (userRole === 'HOST_FAMILY') {
-      profile = await prisma.hostFamilyProfile.findUnique({
+      const hostFamilyProfile = await prisma.hostFamilyProfile.findUnique({
         where: { userId }
       });
+      profile = hostFamilyProfile && serializeHostFamilyProfile(hostFamilyProfile);
     }
 
     res.json({ profile });
@@ -190,8 +277,83 @@ router.get('/me', async (req: AuthRequest, res) => {
   }
 });
 
+const checklistItem = field.object({
+  key: field.string(),
+  label: field.string(),
+  weight: field.integer({ description: 'Percentage points the item is worth' }),
+  status: field.enum(['complete', 'missing', 'pending', 'rejected'], { description: 'pending and rejected refer to an uploaded document' })
+});
+
+// Get how complete the current user's profile is, with what is still missing
+router.get('/me/completeness', validate({
+  summary: "Get the current user's profile completeness",
+  description: 'Documents count once they are verified. Matching can hide or rank last the profiles below a completeness threshold.',
+  response: {
+    completeness: field.object({
+      percentage: field.integer({ min: 0, max: 100 }),
+      hasProfile: field.boolean(),
+      items: field.array(checklistItem),
+      missing: field.array(checklistItem, { description: 'Items still to do, heaviest first' })
+    })
+  },
+  errors: [403]
+}), async (req: AuthRequest, res) => {
+  try {
+    const userRole = req.user!.role;
+
+    if (userRole !== 'AU_PAIR' && userRole !== 'HOST_FAMILY') {
+      return res.status(403).json({ message: 'Only au pairs and host families have profiles' });
+    }
+
+    const completeness = await getProfileCompleteness(prisma, req.user!.id, userRole);
+
+    res.json({ completeness });
+  } catch (error) {
+    console.error('Get profile completeness error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// List known regions (optionally for one country) for location preferences
+router.get('/regions', validate({
+  summary: 'List known regions',
+  query: {
+    country: field.string({ optional: true, description: 'Country name or ISO 3166-1 code' })
+  },
+  response: { regions: field.array(field.string()) }
+}), async (req: AuthRequest, res) => {
+  try {
+    const regions = listRegions(req.query.country as string);
+
+    res.json({ regions });
+  } catch (error) {
+    console.error('Get regions error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Languages (ISO 639-1) and countries (ISO 3166-1) accepted in profile fields
+router.get('/options', validate({
+  summary: 'List accepted languages and countries',
+  response: {
+    languages: field.array(field.object({ code: field.string(), name: field.string(), nativeName: field.string() })),
+    countries: field.array(field.object({ code: field.string(), name: field.string() }))
+  }
+}), async (req: AuthRequest, res) => {
+  try {
+    res.json({ languages: listLanguages(), countries: listCountries() });
+  } catch (error) {
+    console.error('Get profile options error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 // Get profile by user ID
-router.get('/:userId', async (req: AuthRequest, res) => {
+router.get('/:userId', validate({
+  summary: "Get a user's profile",
+  response: { profile: roleProfile, userRole: field.ref('UserRole') },
+  errors: [404]
+}), async (req: AuthRequest, res) => {
   try {
     const { userId } = req.params;
 
@@ -207,13 +369,15 @@ router.get('/:userId', async (req: AuthRequest, res) => {
     let profile = null;
 
     if (user.role === 'AU_PAIR') {
-      profile = await prisma.auPairProfile.findUnique({
+      const auPairProfile = await prisma.auPairProfile.findUnique({
         where: { userId }
       });
+      profile = auPairProfile && serializeAuPairProfile(auPairProfile);
     } else if (user.role === 'HOST_FAMILY') {
-      profile = await prisma.hostFamilyProfile.findUnique({
+      const hostFamilyProfile = await prisma.hostFamilyProfile.findUnique({
         where: { userId }
       });
+      profile = hostFamilyProfile && serializeHostFamilyProfile(hostFamilyProfile);
     }
 
     res.json({ profile, userRole: user.role });
@@ -224,7 +388,10 @@ router.get('/:userId', async (req: AuthRequest, res) => {
 });
 
 // Delete current user's profile
-router.delete('/me', async (req: AuthRequest, res) => {
+router.delete('/me', validate({
+  summary: "Delete the current user's profile",
+  response: messageResponse()
+}), async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
     const userRole = req.user!.role;
@@ -239,6 +406,8 @@ router.delete('/me', async (req: AuthRequest, res) => {
       });
     }
 
+    scheduleCandidateRecompute(userId);
+
     res.json({ message: 'Profile deleted successfully' });
   } catch (error) {
     console.error('Delete profile error:', error);
@@ -1,11 +1,16 @@
 import express, { Request, Response } from 'express';
-import { prisma } from '../index';
+import { prisma } from '../db';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { field } from '../utils/validation';
 
 const router = express.Router();
 
 // Get all users (simple endpoint)
-router.get('/', authMiddleware, async (req: AuthRequest, res: Response) => {
+router.get('/', authMiddleware, validate({
+  summary: 'List users',
+  response: field.array(field.ref('User'))
+}), async (req: AuthRequest, res: Response) => {
   try {
     const users = await prisma.user.findMany({
       select: {
@@ -25,7 +30,11 @@ router.get('/', authMiddleware, async (req: AuthRequest, res: Response) => {
 });
 
 // Get current user
-router.get('/me', authMiddleware, async (req: AuthRequest, res: Response) => {
+router.get('/me', authMiddleware, validate({
+  summary: 'Get the current user',
+  response: { user: field.ref('User') },
+  errors: [404]
+}), async (req: AuthRequest, res: Response) => {
   try {
     const user = await prisma.user.findUnique({
       where: { id: req.user!.id },
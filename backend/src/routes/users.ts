@@ -1,5 +1,5 @@
 import express from 'express';
-import { prisma } from '../index';
+import { prisma } from '../db';
 import { AuthRequest, authMiddleware } from '../middleware/auth';
 
 const router = express.Router();
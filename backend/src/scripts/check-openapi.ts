@@ -0,0 +1,25 @@
+import { apiRoutes } from '../routes';
+import { buildOpenApiDocument, findUndocumentedRoutes } from '../utils/openapi';
+
+// Fail when a mounted route has no spec, so the OpenAPI document stays complete.
+// Every route needs a validate({ summary, ... }) middleware, even without input.
+//
+//   npm run check:openapi (also part of npm test)
+
+const main = () => {
+  const undocumented = findUndocumentedRoutes(apiRoutes);
+
+  if (undocumented.length > 0) {
+    console.error(`❌ ${undocumented.length} route(s) without an OpenAPI spec:`);
+    undocumented.forEach(route => console.error(`  ${route}`));
+    console.error('Add validate({ summary, ... }) to each of them (see src/middleware/validate.ts).');
+    process.exitCode = 1;
+    return;
+  }
+
+  const document = buildOpenApiDocument(apiRoutes, { title: 'Au-pair API', version: 'check' });
+  const operations = Object.values(document.paths).reduce((count, methods) => count + Object.keys(methods).length, 0);
+  console.log(`✅ All ${operations} routes are documented`);
+};
+
+main();
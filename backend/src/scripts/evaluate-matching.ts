@@ -0,0 +1,84 @@
+import { PrismaClient } from '@prisma/client';
+import { EvaluationReport, runMatchEvaluation } from '../utils/matchEvaluation';
+
+// Evaluate a matching config against past approved/rejected matches.
+//
+//   npm run evaluate:matching -- [--version 3] [--threshold 60] [--since 2025-01-01] [--learn] [--json]
+//
+// --learn also proposes weights learned from the outcomes. Save them as a new
+// config version through the admin API to use them.
+
+const prisma = new PrismaClient();
+
+const parseArgs = (args: string[]) => {
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    const [key, inlineValue] = args[i].replace(/^--/, '').split('=');
+    if (inlineValue !== undefined) {
+      options[key] = inlineValue;
+    } else if (args[i + 1] && !args[i + 1].startsWith('--')) {
+      options[key] = args[++i];
+    } else {
+      options[key] = true;
+    }
+  }
+  return options;
+};
+
+const format = (value: number | null) => value === null ? 'n/a' : String(value);
+
+const printReport = (title: string, report: EvaluationReport) => {
+  console.log(`\n${title}`);
+  console.log(`  Weights: ${Object.entries(report.weights).map(([factor, weight]) => `${factor}=${weight}`).join(', ')}`);
+  console.log(`  Samples: ${report.samples} (${report.approved} approved, ${report.rejected} rejected)`);
+  console.log(`  Precision@${report.threshold}: ${format(report.precision)}  Recall: ${format(report.recall)}  Accuracy: ${format(report.accuracy)}`);
+  console.log(`  AUC: ${format(report.auc)}  Average precision: ${format(report.averagePrecision)}`);
+  console.log(`  Mean score: approved ${format(report.meanScore.approved)}, rejected ${format(report.meanScore.rejected)}`);
+  for (const factor of report.factors) {
+    console.log(`    ${factor.factor.padEnd(12)} approved ${format(factor.approved).padStart(5)}  rejected ${format(factor.rejected).padStart(5)}`);
+  }
+};
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const version = typeof args.version === 'string' ? parseInt(args.version) : undefined;
+  const threshold = typeof args.threshold === 'string' ? parseFloat(args.threshold) : undefined;
+  const since = typeof args.since === 'string' ? new Date(args.since) : undefined;
+
+  if ((version !== undefined && isNaN(version)) || (threshold !== undefined && isNaN(threshold)) || (since && isNaN(since.getTime()))) {
+    throw new Error('Usage: evaluate-matching [--version N] [--threshold 0-100] [--since YYYY-MM-DD] [--learn] [--json]');
+  }
+
+  const report = await runMatchEvaluation(prisma, { version, threshold, since, learn: args.learn === true });
+
+  if (!report) {
+    throw new Error(`Matching config version ${version} not found`);
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  const { evaluation, learned, learningError } = report;
+  printReport(`📊 Config version ${evaluation.configVersion}`, evaluation);
+
+  if (learned?.weights && learned.evaluation) {
+    printReport('🧠 Learned weights (not saved)', learned.evaluation);
+    console.log(`  Coefficients: ${Object.entries(learned.coefficients).map(([factor, value]) => `${factor}=${value}`).join(', ')}, intercept=${learned.intercept}`);
+  }
+
+  if (learningError) {
+    console.log(`\n⚠️  ${learningError}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Evaluation failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
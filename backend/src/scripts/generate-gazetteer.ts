@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+
+// Build src/data/gazetteer.json from two GeoNames dumps (https://download.geonames.org/export/dump/):
+// cities1000.txt (from cities1000.zip, every place with at least 1000 inhabitants) and
+// admin1CodesASCII.txt (region names). GeoNames data is CC BY 4.0, so the generated
+// file keeps the attribution.
+//
+//   npm run generate:gazetteer -- <cities1000.txt> <admin1CodesASCII.txt>
+
+const OUTPUT_PATH = path.join(__dirname, '../data/gazetteer.json');
+
+// Sections of cities and historical or abandoned places aren't addresses families give
+const SKIPPED_FEATURE_CODES = ['PPLX', 'PPLH', 'PPLQ', 'PPLW', 'PPLCH'];
+
+// Other names ("Munich" for "München") are kept for larger cities only, in Latin script
+const MIN_ALIAS_POPULATION = 100000;
+const MAX_ALIAS_LENGTH = 40;
+const LATIN_NAME = /^\p{Script=Latin}[\p{Script=Latin}\s'.-]*$/u;
+
+// Same normalization as utils/geo, to skip aliases that resolve like the name anyway
+const normalize = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const roundCoordinate = (value: string) => Math.round(Number(value) * 10000) / 10000;
+
+const readTsv = (file: string) =>
+  fs.readFileSync(file, 'utf8')
+    .split('\n')
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => line.split('\t'));
+
+function main() {
+  const [citiesFile, admin1File] = process.argv.slice(2);
+  if (!citiesFile || !admin1File) {
+    throw new Error('Usage: npm run generate:gazetteer -- <cities1000.txt> <admin1CodesASCII.txt>');
+  }
+
+  // "US.CA" -> "California"
+  const regions: Record<string, string> = {};
+  for (const [code, name, asciiName] of readTsv(admin1File)) {
+    regions[code] = name || asciiName;
+  }
+
+  const cities = readTsv(citiesFile)
+    .filter(columns => columns[6] === 'P' && !SKIPPED_FEATURE_CODES.includes(columns[7]))
+    .map(columns => {
+      const [, name, asciiName, alternateNames, latitude, longitude, , , country, , admin1] = columns;
+      const population = Number(columns[14]) || 0;
+
+      const seen = new Set([normalize(name)]);
+      const aliases: string[] = [];
+      const candidates = [asciiName, ...(population >= MIN_ALIAS_POPULATION ? alternateNames.split(',') : [])];
+      for (const alias of candidates) {
+        const key = normalize(alias);
+        if (!key || seen.has(key) || alias.length > MAX_ALIAS_LENGTH || !LATIN_NAME.test(alias)) continue;
+        seen.add(key);
+        aliases.push(alias);
+      }
+
+      const row = [name, country, admin1, roundCoordinate(latitude), roundCoordinate(longitude)];
+      return { population, row: aliases.length > 0 ? [...row, aliases] : row };
+    })
+    // Largest first: geocoding picks the first city with a matching name
+    .sort((a, b) => b.population - a.population);
+
+  const lines = [
+    '{',
+    `  "source": ${JSON.stringify('GeoNames (https://www.geonames.org), CC BY 4.0: cities1000 and admin1 codes')},`,
+    '  "columns": ["name", "country", "admin1", "lat", "lng", "aliases"],',
+    '  "regions": {',
+    Object.entries(regions).map(([code, name]) => `    ${JSON.stringify(code)}: ${JSON.stringify(name)}`).join(',\n'),
+    '  },',
+    '  "cities": [',
+    cities.map(city => `    ${JSON.stringify(city.row)}`).join(',\n'),
+    '  ]',
+    '}',
+    ''
+  ];
+
+  fs.writeFileSync(OUTPUT_PATH, lines.join('\n'));
+  console.log(`✅ Wrote ${cities.length} cities in ${Object.keys(regions).length} regions to ${OUTPUT_PATH}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('❌ Gazetteer generation failed:', error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,142 @@
+import { PrismaClient } from '@prisma/client';
+import { geocode, resolveCountryCode } from '../utils/geo';
+import {
+  AU_PAIR_LIST_FIELDS,
+  HOST_FAMILY_LIST_FIELDS,
+  ListKind,
+  listContext,
+  parseStoredList,
+  readList
+} from '../utils/profileFields';
+import { parseMatchCriteria } from '../utils/matchCriteria';
+
+// Rewrite profile list fields written before they were normalized: languages to
+// ISO 639-1 codes, countries to ISO 3166-1 codes, all as JSON arrays. Values that
+// can't be resolved are kept as text and reported; child ages that aren't valid are
+// dropped and reported. Host families the gazetteer couldn't place before are
+// geocoded again. Safe to run more than once.
+//
+//   npm run migrate:profile-fields -- [--dry-run]
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes('--dry-run');
+
+const unresolved = new Map<string, Set<string>>();
+const droppedAges = new Map<string, Set<string>>();
+
+const normalizeFields = (profile: Record<string, any>, fields: Record<string, ListKind>) => {
+  const data: Record<string, string> = {};
+  const context = listContext(fields, profile);
+
+  for (const [field, kind] of Object.entries(fields)) {
+    const list = readList(profile[field], kind, context);
+    const value = JSON.stringify(list);
+
+    if (kind === 'language' || kind === 'country') {
+      for (const item of list) {
+        const isCode = kind === 'language' ? /^[a-z]{2}$/.test(String(item)) : /^[A-Z]{2}$/.test(String(item));
+        if (!isCode) {
+          unresolved.set(field, (unresolved.get(field) || new Set()).add(String(item)));
+        }
+      }
+    }
+
+    // readList leaves out ages it can't parse or that are above MAX_CHILD_AGE
+    if (kind === 'age') {
+      for (const item of parseStoredList(profile[field])) {
+        if (readList([item], kind).length === 0) {
+          droppedAges.set(field, (droppedAges.get(field) || new Set()).add(String(item)));
+        }
+      }
+    }
+
+    if (value !== profile[field]) {
+      data[field] = value;
+    }
+  }
+
+  return data;
+};
+
+async function main() {
+  let updated = 0;
+
+  const auPairProfiles = await prisma.auPairProfile.findMany();
+  for (const profile of auPairProfiles) {
+    const data = normalizeFields(profile, AU_PAIR_LIST_FIELDS);
+    if (Object.keys(data).length === 0) continue;
+
+    if (!dryRun) {
+      await prisma.auPairProfile.update({ where: { id: profile.id }, data });
+    }
+    updated++;
+  }
+
+  const hostProfiles = await prisma.hostFamilyProfile.findMany();
+  for (const profile of hostProfiles) {
+    const data: Record<string, string | number | null> = normalizeFields(profile, HOST_FAMILY_LIST_FIELDS);
+
+    const country = resolveCountryCode(profile.country);
+    if (country && country !== profile.country) {
+      data.country = country;
+    } else if (!country) {
+      unresolved.set('country', (unresolved.get('country') || new Set()).add(profile.country));
+    }
+
+    const place = profile.latitude === null && country ? geocode(profile.location, country) : null;
+    if (place) {
+      Object.assign(data, { city: place.city, region: place.region, latitude: place.latitude, longitude: place.longitude });
+    }
+
+    if (Object.keys(data).length === 0) continue;
+
+    if (!dryRun) {
+      await prisma.hostFamilyProfile.update({ where: { id: profile.id }, data });
+    }
+    updated++;
+  }
+
+  // Saved searches filter on the same codes
+  let updatedSearches = 0;
+  const searches = await prisma.savedSearch.findMany();
+  for (const search of searches) {
+    const stored = JSON.parse(search.criteria);
+    const { criteria } = parseMatchCriteria(stored);
+    if (!criteria) {
+      console.log(`⚠️  Saved search ${search.id} has criteria that no longer parse; left unchanged`);
+      continue;
+    }
+
+    const normalized = JSON.stringify({ ...stored, languages: criteria.languages, country: criteria.country });
+    if (normalized === search.criteria) continue;
+
+    if (!dryRun) {
+      await prisma.savedSearch.update({ where: { id: search.id }, data: { criteria: normalized } });
+    }
+    updatedSearches++;
+  }
+
+  // Scores were computed from the old values; candidates are rebuilt on the next potential-matches request
+  if (updated > 0 && !dryRun) {
+    await prisma.matchCandidate.deleteMany();
+  }
+
+  console.log(`${dryRun ? '🔍 Dry run: would update' : '✅ Updated'} ${updated} profiles and ${updatedSearches} saved searches`);
+
+  for (const [field, values] of unresolved) {
+    console.log(`⚠️  Unresolved ${field} values kept as text: ${[...values].join(', ')}`);
+  }
+
+  for (const [field, values] of droppedAges) {
+    console.log(`⚠️  Invalid ${field} values dropped: ${[...values].join(', ')}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Profile field migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,36 @@
+import { PrismaClient } from '@prisma/client';
+import { refreshProfileCompleteness } from '../utils/profileCompleteness';
+
+// Recalculate the stored completeness of every profile, e.g. after the column was
+// added or the checklist weights changed. Safe to run more than once.
+//
+//   npm run refresh:profile-completeness
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        { role: 'AU_PAIR', auPairProfile: { isNot: null } },
+        { role: 'HOST_FAMILY', hostFamilyProfile: { isNot: null } }
+      ]
+    },
+    select: { id: true }
+  });
+
+  for (const user of users) {
+    await refreshProfileCompleteness(prisma, user.id);
+  }
+
+  console.log(`✅ Refreshed the completeness of ${users.length} profiles`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Profile completeness refresh failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
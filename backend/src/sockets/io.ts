@@ -0,0 +1,4 @@
+import { Server } from 'socket.io';
+
+// Socket.io server, attached to the HTTP server in index.ts
+export const io = new Server();
@@ -1,6 +1,10 @@
 import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
-import { prisma } from '../index';
+import { prisma } from '../db';
+import { isSessionActive } from '../utils/sessions';
+import { notifyUser, getMessagePreview } from '../utils/notifications';
+import { getDisplayName } from '../utils/users';
+import { frontendUrl } from '../utils/email';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -28,6 +32,10 @@ export const setupSocketHandlers = (io: Server) => {
         return next(new Error('Authentication error: Invalid user'));
       }
 
+      if (!decoded.sid || !(await isSessionActive(decoded.sid, user.id))) {
+        return next(new Error('Authentication error: Session expired or revoked'));
+      }
+
       socket.userId = user.id;
       socket.userRole = user.role;
       next();
@@ -140,6 +148,20 @@ export const setupSocketHandlers = (io: Server) => {
           preview: content.length > 50 ? content.substring(0, 47) + '...' : content
         });
 
+        // Persist it in the notification center as well
+        const senderName = getDisplayName(message.sender);
+        const preview = getMessagePreview(content);
+
+        await notifyUser(receiverId, 'NEW_MESSAGE', {
+          title: 'New message',
+          body: `${senderName}: ${preview}`,
+          data: { messageId: message.id, fromUserId: socket.userId },
+          email: {
+            template: 'newMessage',
+            data: { senderName, preview, url: frontendUrl('/messages') }
+          }
+        });
+
       } catch (error) {
         console.error('Send message error:', error);
         socket.emit('error', { message: 'Failed to send message' });
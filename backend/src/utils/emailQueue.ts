@@ -0,0 +1,125 @@
+import { prisma } from '../db';
+import { sendTemplatedEmail } from './email';
+import { TemplateDataMap, TemplateName, resolveLocale } from './emailTemplates';
+import { scheduleJob } from './jobRunner';
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const STUCK_JOB_TIMEOUT_MS = 10 * 60 * 1000; // PROCESSING jobs older than this were interrupted
+
+// Queue an email for the worker; callers don't wait for (or fail on) delivery
+export const enqueueEmail = async <K extends TemplateName>(
+  to: string,
+  template: K,
+  data: TemplateDataMap[K],
+  locale?: string | null,
+  options: { sendAt?: Date } = {}
+) => {
+  return prisma.emailJob.create({
+    data: {
+      to,
+      template,
+      data: JSON.stringify(data),
+      locale: resolveLocale(locale),
+      ...(options.sendAt && { nextAttemptAt: options.sendAt })
+    }
+  });
+};
+
+// 30s, 1m, 2m, 4m... capped at one hour
+const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+
+const deliverJob = async (job: { id: string; to: string; template: string; data: string; locale: string; attempts: number; maxAttempts: number }) => {
+  const attempts = job.attempts + 1;
+
+  try {
+    const result = await sendTemplatedEmail(job.to, job.template as TemplateName, JSON.parse(job.data), job.locale);
+
+    await prisma.emailJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'SENT',
+        attempts,
+        providerMessageId: result.messageId,
+        sentAt: new Date(),
+        lastError: null
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const deadLettered = attempts >= job.maxAttempts;
+
+    console.error(`Email job ${job.id} failed (attempt ${attempts}/${job.maxAttempts}):`, message);
+
+    await prisma.emailJob.update({
+      where: { id: job.id },
+      data: {
+        status: deadLettered ? 'FAILED' : 'PENDING',
+        attempts,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts))
+      }
+    });
+  }
+};
+
+// Send every due job once. Returns the number of jobs processed.
+export const processEmailQueue = async (batchSize: number = 20): Promise<number> => {
+  // Release jobs left in PROCESSING by a crashed worker
+  await prisma.emailJob.updateMany({
+    where: {
+      status: 'PROCESSING',
+      updatedAt: { lt: new Date(Date.now() - STUCK_JOB_TIMEOUT_MS) }
+    },
+    data: { status: 'PENDING' }
+  });
+
+  const dueJobs = await prisma.emailJob.findMany({
+    where: {
+      status: 'PENDING',
+      nextAttemptAt: { lte: new Date() }
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: batchSize
+  });
+
+  let processed = 0;
+
+  for (const job of dueJobs) {
+    // Claim the job so another worker instance doesn't send it too
+    const { count } = await prisma.emailJob.updateMany({
+      where: { id: job.id, status: 'PENDING' },
+      data: { status: 'PROCESSING' }
+    });
+
+    if (count === 0) continue;
+
+    await deliverJob(job);
+    processed++;
+  }
+
+  return processed;
+};
+
+// Poll the queue until the returned stop function is called
+export const startEmailWorker = (intervalMs: number = parseInt(process.env.EMAIL_WORKER_INTERVAL_MS as string) || 5000) => {
+  const stop = scheduleJob('Email worker', intervalMs, () => processEmailQueue());
+
+  console.log(`📧 Email worker started (polling every ${intervalMs}ms)`);
+
+  return stop;
+};
+
+// Put a job back in the queue with a fresh set of attempts
+export const retryEmailJob = async (jobId: string) => {
+  return prisma.emailJob.update({
+    where: { id: jobId },
+    data: {
+      status: 'PENDING',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null
+    }
+  });
+};
@@ -0,0 +1,355 @@
+export const SUPPORTED_LOCALES = ['en', 'de'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Accepts values like "de", "de-AT" or "DE"; falls back to English
+export const resolveLocale = (locale?: string | null): Locale => {
+  const language = (locale || '').toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LOCALES as readonly string[]).includes(language) ? language as Locale : DEFAULT_LOCALE;
+};
+
+export interface DigestEntry {
+  senderName: string;
+  count: number;
+  preview: string;
+}
+
+export interface TemplateDataMap {
+  verification: { url: string };
+  passwordReset: { url: string };
+  emailChangeConfirmation: { url: string };
+  emailChangeNotice: { newEmail: string };
+  matchRequest: { senderName: string; url: string };
+  matchStatus: { otherName: string; approved: boolean; url: string };
+  mutualMatch: { otherName: string; url: string };
+  matchReminder: { senderName: string; expiresAt: Date; url: string };
+  bookingRequest: { senderName: string; startDate: Date; endDate: Date; url: string };
+  bookingStatus: { otherName: string; status: string; startDate: Date; endDate: Date; url: string };
+  documentStatus: { documentType: string; verified: boolean; notes?: string | null; url: string };
+  newMessage: { senderName: string; preview: string; url: string };
+  savedSearchResults: { searchName: string; count: number; url: string };
+  messageDigest: { entries: DigestEntry[]; pendingMatchRequests: number; url: string };
+}
+
+export type TemplateName = keyof TemplateDataMap;
+
+interface TemplateContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string; color?: string };
+  footer?: string[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type LocalizedTemplate<K extends TemplateName> = Record<Locale, (data: TemplateDataMap[K]) => TemplateContent>;
+
+const formatDate = (date: Date, locale: Locale) =>
+  new Date(date).toLocaleDateString(locale === 'de' ? 'de-DE' : 'en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+const BOOKING_STATUS_LABELS: Record<Locale, Record<string, string>> = {
+  en: { APPROVED: 'approved', REJECTED: 'declined', CANCELLED: 'cancelled', COMPLETED: 'completed' },
+  de: { APPROVED: 'bestätigt', REJECTED: 'abgelehnt', CANCELLED: 'storniert', COMPLETED: 'abgeschlossen' }
+};
+
+const DOCUMENT_TYPE_LABELS: Record<Locale, Record<string, string>> = {
+  en: { ID: 'ID card', PASSPORT: 'passport', VISA: 'visa', PROFILE_PHOTO: 'profile photo' },
+  de: { ID: 'Personalausweis', PASSPORT: 'Reisepass', VISA: 'Visum', PROFILE_PHOTO: 'Profilfoto' }
+};
+
+const templates: { [K in TemplateName]: LocalizedTemplate<K> } = {
+  verification: {
+    en: ({ url }) => ({
+      subject: 'Verify your Au-pair account',
+      heading: 'Welcome to Au-pair!',
+      paragraphs: ['Thank you for signing up. Please verify your email address by clicking the link below:'],
+      action: { label: 'Verify Email Address', url },
+      footer: ["If you didn't create an account, you can safely ignore this email.", 'This link will expire in 24 hours.']
+    }),
+    de: ({ url }) => ({
+      subject: 'Bestätige dein Au-pair-Konto',
+      heading: 'Willkommen bei Au-pair!',
+      paragraphs: ['Danke für deine Anmeldung. Bitte bestätige deine E-Mail-Adresse über den folgenden Link:'],
+      action: { label: 'E-Mail-Adresse bestätigen', url },
+      footer: ['Wenn du kein Konto erstellt hast, kannst du diese E-Mail ignorieren.', 'Der Link ist 24 Stunden gültig.']
+    })
+  },
+  passwordReset: {
+    en: ({ url }) => ({
+      subject: 'Reset your Au-pair password',
+      heading: 'Password Reset Request',
+      paragraphs: ['You requested to reset your password. Click the link below to set a new password:'],
+      action: { label: 'Reset Password', url, color: '#dc3545' },
+      footer: ["If you didn't request this, you can safely ignore this email.", 'This link will expire in 1 hour.']
+    }),
+    de: ({ url }) => ({
+      subject: 'Setze dein Au-pair-Passwort zurück',
+      heading: 'Passwort zurücksetzen',
+      paragraphs: ['Du hast angefordert, dein Passwort zurückzusetzen. Über den folgenden Link kannst du ein neues Passwort festlegen:'],
+      action: { label: 'Passwort zurücksetzen', url, color: '#dc3545' },
+      footer: ['Wenn du das nicht angefordert hast, kannst du diese E-Mail ignorieren.', 'Der Link ist 1 Stunde gültig.']
+    })
+  },
+  emailChangeConfirmation: {
+    en: ({ url }) => ({
+      subject: 'Confirm your new Au-pair email address',
+      heading: 'Confirm your new email address',
+      paragraphs: ['You asked to use this address for your Au-pair account. Click the link below to confirm the change:'],
+      action: { label: 'Confirm Email Address', url },
+      footer: ["If you didn't request this, you can safely ignore this email.", 'This link will expire in 24 hours.']
+    }),
+    de: ({ url }) => ({
+      subject: 'Bestätige deine neue Au-pair-E-Mail-Adresse',
+      heading: 'Neue E-Mail-Adresse bestätigen',
+      paragraphs: ['Du möchtest diese Adresse für dein Au-pair-Konto verwenden. Bestätige die Änderung über den folgenden Link:'],
+      action: { label: 'E-Mail-Adresse bestätigen', url },
+      footer: ['Wenn du das nicht angefordert hast, kannst du diese E-Mail ignorieren.', 'Der Link ist 24 Stunden gültig.']
+    })
+  },
+  emailChangeNotice: {
+    en: ({ newEmail }) => ({
+      subject: 'Your Au-pair email address is being changed',
+      heading: 'Email change requested',
+      paragraphs: [
+        `Someone asked to change the email address of your Au-pair account to ${newEmail}.`,
+        'The change only takes effect once the new address is confirmed.'
+      ],
+      footer: ["If this wasn't you, change your password immediately and contact support."]
+    }),
+    de: ({ newEmail }) => ({
+      subject: 'Die E-Mail-Adresse deines Au-pair-Kontos wird geändert',
+      heading: 'Änderung der E-Mail-Adresse angefordert',
+      paragraphs: [
+        `Es wurde angefordert, die E-Mail-Adresse deines Au-pair-Kontos in ${newEmail} zu ändern.`,
+        'Die Änderung wird erst wirksam, wenn die neue Adresse bestätigt wurde.'
+      ],
+      footer: ['Wenn du das nicht warst, ändere sofort dein Passwort und kontaktiere den Support.']
+    })
+  },
+  matchRequest: {
+    en: ({ senderName, url }) => ({
+      subject: `${senderName} wants to match with you`,
+      heading: 'New match request',
+      paragraphs: [`${senderName} sent you a match request on Au-pair.`],
+      action: { label: 'View Request', url }
+    }),
+    de: ({ senderName, url }) => ({
+      subject: `${senderName} möchte mit dir matchen`,
+      heading: 'Neue Match-Anfrage',
+      paragraphs: [`${senderName} hat dir auf Au-pair eine Match-Anfrage geschickt.`],
+      action: { label: 'Anfrage ansehen', url }
+    })
+  },
+  matchStatus: {
+    en: ({ otherName, approved, url }) => ({
+      subject: approved ? `${otherName} accepted your match request` : `Update on your match request with ${otherName}`,
+      heading: approved ? "It's a match!" : 'Match request declined',
+      paragraphs: [approved
+        ? `${otherName} accepted your match request. You can now message each other.`
+        : `${otherName} declined your match request. Keep looking, there are more matches waiting for you.`],
+      action: { label: approved ? 'Send a Message' : 'Find Matches', url }
+    }),
+    de: ({ otherName, approved, url }) => ({
+      subject: approved ? `${otherName} hat deine Match-Anfrage angenommen` : `Neuigkeiten zu deiner Match-Anfrage an ${otherName}`,
+      heading: approved ? 'Es ist ein Match!' : 'Match-Anfrage abgelehnt',
+      paragraphs: [approved
+        ? `${otherName} hat deine Match-Anfrage angenommen. Ihr könnt euch jetzt Nachrichten schreiben.`
+        : `${otherName} hat deine Match-Anfrage abgelehnt. Schau dich weiter um, es warten noch mehr Matches auf dich.`],
+      action: { label: approved ? 'Nachricht schreiben' : 'Matches finden', url }
+    })
+  },
+  mutualMatch: {
+    en: ({ otherName, url }) => ({
+      subject: `You and ${otherName} liked each other`,
+      heading: "It's a match!",
+      paragraphs: [`You and ${otherName} both showed interest in each other. You can now message each other.`],
+      action: { label: 'Send a Message', url }
+    }),
+    de: ({ otherName, url }) => ({
+      subject: `Du und ${otherName} habt euch gegenseitig geliked`,
+      heading: 'Es ist ein Match!',
+      paragraphs: [`Du und ${otherName} habt beide Interesse aneinander gezeigt. Ihr könnt euch jetzt Nachrichten schreiben.`],
+      action: { label: 'Nachricht schreiben', url }
+    })
+  },
+  matchReminder: {
+    en: ({ senderName, expiresAt, url }) => ({
+      subject: `${senderName} is still waiting for your answer`,
+      heading: 'Pending match request',
+      paragraphs: [
+        `${senderName} sent you a match request that you haven't answered yet.`,
+        `The request expires on ${formatDate(expiresAt, 'en')}.`
+      ],
+      action: { label: 'View Request', url }
+    }),
+    de: ({ senderName, expiresAt, url }) => ({
+      subject: `${senderName} wartet noch auf deine Antwort`,
+      heading: 'Offene Match-Anfrage',
+      paragraphs: [
+        `${senderName} hat dir eine Match-Anfrage geschickt, die du noch nicht beantwortet hast.`,
+        `Die Anfrage läuft am ${formatDate(expiresAt, 'de')} ab.`
+      ],
+      action: { label: 'Anfrage ansehen', url }
+    })
+  },
+  bookingRequest: {
+    en: ({ senderName, startDate, endDate, url }) => ({
+      subject: `New booking request from ${senderName}`,
+      heading: 'New booking request',
+      paragraphs: [`${senderName} requested a booking from ${formatDate(startDate, 'en')} to ${formatDate(endDate, 'en')}.`],
+      action: { label: 'Review Booking', url }
+    }),
+    de: ({ senderName, startDate, endDate, url }) => ({
+      subject: `Neue Buchungsanfrage von ${senderName}`,
+      heading: 'Neue Buchungsanfrage',
+      paragraphs: [`${senderName} hat eine Buchung vom ${formatDate(startDate, 'de')} bis ${formatDate(endDate, 'de')} angefragt.`],
+      action: { label: 'Buchung prüfen', url }
+    })
+  },
+  bookingStatus: {
+    en: ({ otherName, status, startDate, endDate, url }) => {
+      const label = BOOKING_STATUS_LABELS.en[status] || status.toLowerCase();
+      return {
+        subject: `Your booking with ${otherName} was ${label}`,
+        heading: 'Booking update',
+        paragraphs: [`Your booking with ${otherName} from ${formatDate(startDate, 'en')} to ${formatDate(endDate, 'en')} was ${label}.`],
+        action: { label: 'View Booking', url }
+      };
+    },
+    de: ({ otherName, status, startDate, endDate, url }) => {
+      const label = BOOKING_STATUS_LABELS.de[status] || status.toLowerCase();
+      return {
+        subject: `Deine Buchung mit ${otherName} wurde ${label}`,
+        heading: 'Neuigkeiten zu deiner Buchung',
+        paragraphs: [`Deine Buchung mit ${otherName} vom ${formatDate(startDate, 'de')} bis ${formatDate(endDate, 'de')} wurde ${label}.`],
+        action: { label: 'Buchung ansehen', url }
+      };
+    }
+  },
+  documentStatus: {
+    en: ({ documentType, verified, notes, url }) => {
+      const label = DOCUMENT_TYPE_LABELS.en[documentType] || documentType.toLowerCase();
+      return {
+        subject: verified ? `Your ${label} has been verified` : `Your ${label} could not be verified`,
+        heading: verified ? 'Document verified' : 'Document rejected',
+        paragraphs: [
+          verified
+            ? `Good news: our team verified your ${label}.`
+            : `Our team could not verify your ${label}. Please upload a new copy.`,
+          ...(notes ? [`Note from the reviewer: ${notes}`] : [])
+        ],
+        action: { label: 'View Documents', url }
+      };
+    },
+    de: ({ documentType, verified, notes, url }) => {
+      const label = DOCUMENT_TYPE_LABELS.de[documentType] || documentType.toLowerCase();
+      return {
+        subject: verified ? `Dein Dokument (${label}) wurde verifiziert` : `Dein Dokument (${label}) konnte nicht verifiziert werden`,
+        heading: verified ? 'Dokument verifiziert' : 'Dokument abgelehnt',
+        paragraphs: [
+          verified
+            ? `Gute Nachrichten: Unser Team hat dein Dokument (${label}) verifiziert.`
+            : `Unser Team konnte dein Dokument (${label}) nicht verifizieren. Bitte lade eine neue Kopie hoch.`,
+          ...(notes ? [`Hinweis der Prüfung: ${notes}`] : [])
+        ],
+        action: { label: 'Dokumente ansehen', url }
+      };
+    }
+  },
+  newMessage: {
+    en: ({ senderName, preview, url }) => ({
+      subject: `New message from ${senderName}`,
+      heading: 'You have a new message',
+      paragraphs: [`${senderName} wrote: "${preview}"`],
+      action: { label: 'Reply', url }
+    }),
+    de: ({ senderName, preview, url }) => ({
+      subject: `Neue Nachricht von ${senderName}`,
+      heading: 'Du hast eine neue Nachricht',
+      paragraphs: [`${senderName} schreibt: „${preview}“`],
+      action: { label: 'Antworten', url }
+    })
+  },
+  savedSearchResults: {
+    en: ({ searchName, count, url }) => ({
+      subject: `${count} new ${count === 1 ? 'match' : 'matches'} for "${searchName}"`,
+      heading: 'New results for your saved search',
+      paragraphs: [`${count} new ${count === 1 ? 'profile matches' : 'profiles match'} your saved search "${searchName}".`],
+      action: { label: 'View Matches', url }
+    }),
+    de: ({ searchName, count, url }) => ({
+      subject: `${count} ${count === 1 ? 'neues Match' : 'neue Matches'} für „${searchName}“`,
+      heading: 'Neue Ergebnisse für deine gespeicherte Suche',
+      paragraphs: [`${count} ${count === 1 ? 'neues Profil passt' : 'neue Profile passen'} zu deiner gespeicherten Suche „${searchName}“.`],
+      action: { label: 'Matches ansehen', url }
+    })
+  },
+  messageDigest: {
+    en: ({ entries, pendingMatchRequests, url }) => ({
+      subject: 'Your Au-pair activity summary',
+      heading: 'Here is what you missed',
+      paragraphs: [
+        ...entries.map(entry => `${entry.senderName} (${entry.count} new): "${entry.preview}"`),
+        ...(pendingMatchRequests > 0 ? [`You have ${pendingMatchRequests} pending match request(s).`] : [])
+      ],
+      action: { label: 'Open Au-pair', url },
+      footer: ['You receive this summary based on your notification preferences.']
+    }),
+    de: ({ entries, pendingMatchRequests, url }) => ({
+      subject: 'Deine Au-pair-Zusammenfassung',
+      heading: 'Das hast du verpasst',
+      paragraphs: [
+        ...entries.map(entry => `${entry.senderName} (${entry.count} neu): „${entry.preview}“`),
+        ...(pendingMatchRequests > 0 ? [`Du hast ${pendingMatchRequests} offene Match-Anfrage(n).`] : [])
+      ],
+      action: { label: 'Au-pair öffnen', url },
+      footer: ['Du erhältst diese Zusammenfassung aufgrund deiner Benachrichtigungseinstellungen.']
+    })
+  }
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderHtml = (content: TemplateContent) => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2>${escapeHtml(content.heading)}</h2>
+    ${content.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n    ')}
+    ${content.action ? `<a href="${escapeHtml(content.action.url)}" style="background-color: ${content.action.color || '#007bff'}; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">
+      ${escapeHtml(content.action.label)}
+    </a>` : ''}
+    ${(content.footer || []).map(line => `<p>${escapeHtml(line)}</p>`).join('\n    ')}
+  </div>
+`;
+
+const renderText = (content: TemplateContent) => [
+  content.heading,
+  '',
+  ...content.paragraphs,
+  ...(content.action ? ['', `${content.action.label}: ${content.action.url}`] : []),
+  ...(content.footer ? ['', ...content.footer] : [])
+].join('\n');
+
+export const renderEmail = <K extends TemplateName>(
+  name: K,
+  data: TemplateDataMap[K],
+  locale?: string | null
+): RenderedEmail => {
+  const content = templates[name][resolveLocale(locale)](data);
+
+  return {
+    subject: content.subject,
+    html: renderHtml(content),
+    text: renderText(content)
+  };
+};
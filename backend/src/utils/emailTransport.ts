@@ -0,0 +1,147 @@
+import nodemailer from 'nodemailer';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SendResult {
+  messageId: string;
+  previewUrl?: string | false;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<SendResult>;
+}
+
+const getFromAddress = () => process.env.EMAIL_FROM || 'noreply@aupair.com';
+
+// SMTP server configured through SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and SMTP_PASS
+export const createSmtpTransport = (): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT as string) || 587,
+    secure: process.env.SMTP_SECURE === 'true', // true for 465, false for other ports
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail({ from: getFromAddress(), ...message });
+      return { messageId: info.messageId };
+    }
+  };
+};
+
+// Ethereal catches every message and shows it on a preview page; the test account
+// is created on first send and reused for the lifetime of the process
+export const createEtherealTransport = (): EmailTransport => {
+  let transporterPromise: Promise<nodemailer.Transporter> | null = null;
+
+  const getTransporter = () => {
+    if (!transporterPromise) {
+      transporterPromise = nodemailer.createTestAccount().then(testAccount => {
+        console.log('📧 Ethereal Email Test Account Created:');
+        console.log(`Email: ${testAccount.user}`);
+        console.log(`Password: ${testAccount.pass}`);
+        console.log(`Preview URL: https://ethereal.email`);
+
+        return nodemailer.createTransport({
+          host: 'smtp.ethereal.email',
+          port: 587,
+          secure: false,
+          auth: {
+            user: testAccount.user,
+            pass: testAccount.pass,
+          },
+        });
+      });
+
+      // Let the next send retry if account creation failed
+      transporterPromise.catch(() => {
+        transporterPromise = null;
+      });
+    }
+    return transporterPromise;
+  };
+
+  return {
+    name: 'ethereal',
+    async send(message) {
+      const transporter = await getTransporter();
+      const info = await transporter.sendMail({ from: getFromAddress(), ...message });
+      return { messageId: info.messageId, previewUrl: nodemailer.getTestMessageUrl(info) };
+    }
+  };
+};
+
+export interface OutboxTransport extends EmailTransport {
+  messages: Array<EmailMessage & { messageId: string; from: string; sentAt: string }>;
+  clear(): void;
+}
+
+// Writes every message as a JSON file (and keeps it in memory) instead of sending it.
+// Meant for tests and offline development.
+export const createOutboxTransport = (
+  directory: string = process.env.EMAIL_OUTBOX_DIR || path.join(os.tmpdir(), 'au-pair-outbox')
+): OutboxTransport => {
+  const messages: OutboxTransport['messages'] = [];
+
+  return {
+    name: 'outbox',
+    messages,
+    clear() {
+      messages.length = 0;
+    },
+    async send(message) {
+      const messageId = `<${crypto.randomUUID()}@outbox.local>`;
+      const entry = { ...message, messageId, from: getFromAddress(), sentAt: new Date().toISOString() };
+      messages.push(entry);
+
+      await fs.promises.mkdir(directory, { recursive: true });
+      const filename = `${Date.now()}-${messageId.slice(1, 9)}.json`;
+      await fs.promises.writeFile(path.join(directory, filename), JSON.stringify(entry, null, 2));
+
+      return { messageId };
+    }
+  };
+};
+
+let transport: EmailTransport | null = null;
+
+// EMAIL_TRANSPORT picks smtp, ethereal or outbox. Without it, SMTP is used when
+// SMTP_HOST is set and Ethereal otherwise.
+export const getEmailTransport = (): EmailTransport => {
+  if (!transport) {
+    const choice = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'ethereal');
+
+    switch (choice) {
+      case 'smtp':
+        transport = createSmtpTransport();
+        break;
+      case 'outbox':
+        transport = createOutboxTransport();
+        break;
+      case 'ethereal':
+        transport = createEtherealTransport();
+        break;
+      default:
+        throw new Error(`Unknown EMAIL_TRANSPORT "${choice}"`);
+    }
+  }
+  return transport;
+};
+
+export const setEmailTransport = (newTransport: EmailTransport): void => {
+  transport = newTransport;
+};
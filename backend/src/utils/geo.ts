@@ -0,0 +1,210 @@
+import gazetteer from '../data/gazetteer.json';
+import countries from '../data/countries.json';
+
+// Offline geocoding against the bundled gazetteer (src/data/gazetteer.json), an
+// extract of the GeoNames places with at least 1000 inhabitants (regenerate it with
+// `npm run generate:gazetteer`). Smaller places simply don't get coordinates.
+// Country names resolve against the full ISO 3166-1 list (src/data/countries.json).
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodedPlace extends GeoPoint {
+  city: string;
+  region: string | null;
+  country: string; // ISO 3166-1 alpha-2
+}
+
+interface GazetteerRegion {
+  name: string;
+  code?: string; // Only letter codes people write, like "CA" or "ENG"; many countries number their regions
+  country: string;
+}
+
+interface GazetteerCity {
+  name: string;
+  region: GazetteerRegion | null;
+  country: string;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+// Rows as in gazetteer.columns: name, country, admin1 code, lat, lng and optional aliases
+type GazetteerRow = [string, string, string, number, number, string[]?];
+
+// Lowercase, strip accents and punctuation: "Zürich" -> "zurich", "St. Louis" -> "st louis"
+const normalize = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const regionsByCode = new Map<string, GazetteerRegion>();
+for (const [key, name] of Object.entries(gazetteer.regions as Record<string, string>)) {
+  const [country, code] = key.split('.');
+  regionsByCode.set(key, { name, country, ...(/^[A-Z]{2,3}$/.test(code) && { code }) });
+}
+const regions = [...regionsByCode.values()];
+
+// Largest places first, so "Paris" is the one in France
+const cities: GazetteerCity[] = (gazetteer.cities as unknown as GazetteerRow[]).map(([name, country, admin1, lat, lng, aliases]) => ({
+  name,
+  region: regionsByCode.get(`${country}.${admin1}`) || null,
+  country,
+  lat,
+  lng,
+  aliases
+}));
+
+const countryCodesByName = new Map<string, string>();
+for (const [code, country] of Object.entries(countries)) {
+  for (const name of [code, country.name, ...country.aliases]) {
+    countryCodesByName.set(normalize(name), code);
+  }
+}
+
+// Places called by a name come before places that only have it as an alias
+const citiesByName = new Map<string, GazetteerCity[]>();
+const indexCity = (name: string, city: GazetteerCity) => {
+  const key = normalize(name);
+  const entries = citiesByName.get(key);
+  if (!entries) {
+    citiesByName.set(key, [city]);
+  } else if (!entries.includes(city)) {
+    entries.push(city);
+  }
+};
+for (const city of cities) {
+  indexCity(city.name, city);
+}
+for (const city of cities) {
+  for (const alias of city.aliases || []) {
+    indexCity(alias, city);
+  }
+}
+
+const regionsByName = new Map<string, GazetteerRegion[]>();
+for (const region of regions) {
+  for (const name of region.code ? [region.name, region.code] : [region.name]) {
+    const key = normalize(name);
+    regionsByName.set(key, [...(regionsByName.get(key) || []), region]);
+  }
+}
+
+// ISO 3166-1 alpha-2 code for a country name, code or common alias ("USA", "Deutschland", "de")
+export const resolveCountryCode = (country?: string | null): string | null => {
+  if (!country) return null;
+  return countryCodesByName.get(normalize(country)) || null;
+};
+
+// English name for a country code, or the value itself if it isn't one
+export const getCountryName = (code: string): string =>
+  (countries as Record<string, { name: string }>)[code]?.name || code;
+
+// Every ISO 3166-1 country, for pickers
+export const listCountries = (): { code: string; name: string }[] =>
+  Object.entries(countries)
+    .map(([code, country]) => ({ code, name: country.name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const matchesRegion = (city: GazetteerCity, region: string) =>
+  !!city.region && (regionsByName.get(region) || []).includes(city.region);
+
+const toPlace = (city: GazetteerCity): GeocodedPlace => ({
+  city: city.name,
+  region: city.region ? city.region.name : null,
+  country: city.country,
+  latitude: city.lat,
+  longitude: city.lng
+});
+
+// Resolve free text such as "Munich", "San Francisco, CA" or "Cork, Ireland".
+// Later comma-separated parts narrow the search by region or country.
+export const geocode = (location: string, country?: string | null): GeocodedPlace | null => {
+  const [cityPart, ...qualifiers] = location.split(',').map(normalize).filter(Boolean);
+  if (!cityPart) return null;
+
+  let candidates = citiesByName.get(cityPart) || [];
+
+  const countryCode = resolveCountryCode(country);
+  if (countryCode) {
+    candidates = candidates.filter(city => city.country === countryCode);
+  }
+
+  for (const qualifier of qualifiers) {
+    const qualifierCountry = countryCodesByName.get(qualifier);
+    const narrowed = candidates.filter(city => matchesRegion(city, qualifier) || city.country === qualifierCountry);
+    if (narrowed.length > 0) {
+      candidates = narrowed;
+    }
+  }
+
+  return candidates.length > 0 ? toPlace(candidates[0]) : null;
+};
+
+// Region names known for a country, for validating au pair region preferences
+export const listRegions = (country?: string | null): string[] => {
+  const countryCode = resolveCountryCode(country);
+  const names = regions
+    .filter(region => !countryCode || region.country === countryCode)
+    .map(region => region.name);
+  return [...new Set(names)].sort();
+};
+
+// Canonical spelling of a region ("bavaria" -> "Bavaria", "CA" -> "California") within
+// the given countries (ISO codes), or null if unknown. Names and codes repeat across
+// countries, so without countries only a region that can't be confused resolves.
+export const resolveRegion = (region: string, countryCodes: string[] = []): string | null => {
+  const matches = (regionsByName.get(normalize(region)) || [])
+    .filter(candidate => countryCodes.length === 0 || countryCodes.includes(candidate.country));
+  const names = new Set(matches.map(candidate => candidate.name));
+  return names.size === 1 ? matches[0].name : null;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in kilometres
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Latitude/longitude box containing every point within radiusKm of center,
+// for a cheap indexed pre-filter before the exact distance check
+export const boundingBox = (center: GeoPoint, radiusKm: number) => {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(Math.cos(toRadians(center.latitude)), 0.01);
+  return {
+    minLatitude: center.latitude - latDelta,
+    maxLatitude: center.latitude + latDelta,
+    minLongitude: center.longitude - lngDelta,
+    maxLongitude: center.longitude + lngDelta
+  };
+};
+
+// Accepts "52.52,13.40" or a place name
+export const parseLocation = (value: string): (GeoPoint & { label: string }) | null => {
+  const coordinates = value.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (coordinates) {
+    const latitude = parseFloat(coordinates[1]);
+    const longitude = parseFloat(coordinates[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+    return { label: value.trim(), latitude, longitude };
+  }
+
+  const place = geocode(value);
+  if (!place) return null;
+
+  const label = place.region ? `${place.city}, ${place.region}` : place.city;
+  return { label, latitude: place.latitude, longitude: place.longitude };
+};
@@ -0,0 +1,51 @@
+// Minimal in-process scheduler for background jobs (email queue, digests,
+// saved searches, match expiry). Each job runs on its own interval and a tick
+// is skipped while the previous run is still going.
+
+export interface JobStatus {
+  name: string;
+  intervalMs: number;
+  running: boolean;
+  lastStartedAt: Date | null;
+  lastFinishedAt: Date | null;
+  lastError: string | null;
+}
+
+const jobs = new Map<string, JobStatus>();
+
+// Run `run` every intervalMs until the returned stop function is called
+export const scheduleJob = (name: string, intervalMs: number, run: () => Promise<unknown>) => {
+  const status: JobStatus = {
+    name,
+    intervalMs,
+    running: false,
+    lastStartedAt: null,
+    lastFinishedAt: null,
+    lastError: null
+  };
+  jobs.set(name, status);
+
+  const timer = setInterval(async () => {
+    if (status.running) return;
+    status.running = true;
+    status.lastStartedAt = new Date();
+    try {
+      await run();
+      status.lastError = null;
+    } catch (error) {
+      console.error(`${name} error:`, error);
+      status.lastError = error instanceof Error ? error.message : String(error);
+    } finally {
+      status.running = false;
+      status.lastFinishedAt = new Date();
+    }
+  }, intervalMs);
+
+  return () => {
+    clearInterval(timer);
+    jobs.delete(name);
+  };
+};
+
+// Jobs currently scheduled in this process, for the admin dashboard
+export const getJobStatuses = (): JobStatus[] => Array.from(jobs.values(), status => ({ ...status }));
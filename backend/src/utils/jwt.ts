@@ -1,21 +1,72 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 
-export const generateAccessToken = (userId: string): string => {
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export const generateAccessToken = (userId: string, sessionId: string): string => {
   return jwt.sign(
-    { userId },
+    { userId, sid: sessionId },
     process.env.JWT_ACCESS_SECRET!,
     { expiresIn: '15m' }
   );
 };
 
-export const generateRefreshToken = (userId: string): string => {
+export const generateRefreshToken = (userId: string, sessionId: string): string => {
   return jwt.sign(
-    { userId },
+    { userId, sid: sessionId },
     process.env.JWT_REFRESH_SECRET!,
-    { expiresIn: '7d' }
+    {
+      expiresIn: REFRESH_TOKEN_TTL_MS / 1000,
+      jwtid: crypto.randomUUID() // Every rotated token must be distinct
+    }
   );
 };
 
 export const verifyRefreshToken = (token: string): any => {
   return jwt.verify(token, process.env.JWT_REFRESH_SECRET!);
-};
\ No newline at end of file
+};
+
+// Short-lived token proving the password step of a two-step login succeeded.
+// It carries no session id, so authMiddleware never accepts it as an access token.
+export const generateTwoFactorChallengeToken = (userId: string): string => {
+  return jwt.sign(
+    { userId, purpose: 'two_factor' },
+    process.env.JWT_ACCESS_SECRET!,
+    { expiresIn: '5m' }
+  );
+};
+
+export const verifyTwoFactorChallengeToken = (token: string): { userId: string } => {
+  const decoded = jwt.verify(token, process.env.JWT_ACCESS_SECRET!) as any;
+
+  if (decoded.purpose !== 'two_factor') {
+    throw new Error('Invalid challenge token');
+  }
+
+  return { userId: decoded.userId };
+};
+
+// Carries a verified external identity between the OIDC callback and the
+// role-selection step of a first social login
+export const generateOidcSignupToken = (identity: { provider: string; subject: string; email: string; emailVerified: boolean }): string => {
+  return jwt.sign(
+    { ...identity, purpose: 'oidc_signup' },
+    process.env.JWT_ACCESS_SECRET!,
+    { expiresIn: '15m' }
+  );
+};
+
+export const verifyOidcSignupToken = (token: string): { provider: string; subject: string; email: string; emailVerified: boolean } => {
+  const decoded = jwt.verify(token, process.env.JWT_ACCESS_SECRET!) as any;
+
+  if (decoded.purpose !== 'oidc_signup') {
+    throw new Error('Invalid signup token');
+  }
+
+  return {
+    provider: decoded.provider,
+    subject: decoded.subject,
+    email: decoded.email,
+    emailVerified: decoded.emailVerified
+  };
+};
@@ -0,0 +1,171 @@
+import { prisma } from '../db';
+
+export interface ThrottleRecord {
+  failures: number;
+  lockedUntil: number | null; // epoch ms
+  expiresAt: number; // epoch ms, record is forgotten after this
+}
+
+export interface ThrottleEntry extends ThrottleRecord {
+  key: string;
+}
+
+// Storage backend for attempt counters. The in-memory store is per-process;
+// deployments running several instances should use a shared store.
+export interface ThrottleStore {
+  get(key: string): Promise<ThrottleRecord | null>;
+  set(key: string, record: ThrottleRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+  listLocked(prefix: string): Promise<ThrottleEntry[]>;
+}
+
+export interface ThrottlePolicy {
+  maxFailures: number; // failures allowed before the first lockout
+  baseLockoutMs: number; // first lockout, doubled for each further failure
+  maxLockoutMs: number;
+  windowMs: number; // failures older than this are forgotten
+}
+
+const MINUTE = 60 * 1000;
+
+export const THROTTLE_POLICIES = {
+  account: { maxFailures: 5, baseLockoutMs: MINUTE, maxLockoutMs: 60 * MINUTE, windowMs: 15 * MINUTE },
+  ip: { maxFailures: 20, baseLockoutMs: MINUTE, maxLockoutMs: 60 * MINUTE, windowMs: 15 * MINUTE },
+  twoFactor: { maxFailures: 5, baseLockoutMs: MINUTE, maxLockoutMs: 60 * MINUTE, windowMs: 15 * MINUTE },
+  emailRequest: { maxFailures: 3, baseLockoutMs: 15 * MINUTE, maxLockoutMs: 60 * MINUTE, windowMs: 60 * MINUTE }
+};
+
+export const createMemoryThrottleStore = (): ThrottleStore => {
+  const records = new Map<string, ThrottleRecord>();
+
+  return {
+    async get(key) {
+      const record = records.get(key);
+      if (record && record.expiresAt <= Date.now()) {
+        records.delete(key);
+        return null;
+      }
+      return record || null;
+    },
+    async set(key, record) {
+      records.set(key, record);
+    },
+    async delete(key) {
+      records.delete(key);
+    },
+    async listLocked(prefix) {
+      const now = Date.now();
+      return Array.from(records.entries())
+        .filter(([key, record]) => key.startsWith(prefix) && record.lockedUntil && record.lockedUntil > now)
+        .map(([key, record]) => ({ key, ...record }));
+    }
+  };
+};
+
+export const createPrismaThrottleStore = (): ThrottleStore => ({
+  async get(key) {
+    const record = await prisma.loginThrottle.findUnique({ where: { key } });
+    if (!record) return null;
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      await prisma.loginThrottle.deleteMany({ where: { key } });
+      return null;
+    }
+
+    return {
+      failures: record.failures,
+      lockedUntil: record.lockedUntil ? record.lockedUntil.getTime() : null,
+      expiresAt: record.expiresAt.getTime()
+    };
+  },
+  async set(key, record) {
+    const data = {
+      failures: record.failures,
+      lockedUntil: record.lockedUntil ? new Date(record.lockedUntil) : null,
+      expiresAt: new Date(record.expiresAt)
+    };
+    await prisma.loginThrottle.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data
+    });
+  },
+  async delete(key) {
+    await prisma.loginThrottle.deleteMany({ where: { key } });
+  },
+  async listLocked(prefix) {
+    const records = await prisma.loginThrottle.findMany({
+      where: { key: { startsWith: prefix }, lockedUntil: { gt: new Date() } },
+      orderBy: { lockedUntil: 'desc' }
+    });
+    return records.map(record => ({
+      key: record.key,
+      failures: record.failures,
+      lockedUntil: record.lockedUntil!.getTime(),
+      expiresAt: record.expiresAt.getTime()
+    }));
+  }
+});
+
+let store: ThrottleStore | null = null;
+
+// Chosen on first use so THROTTLE_STORE from .env is honoured
+export const getThrottleStore = (): ThrottleStore => {
+  if (!store) {
+    store = process.env.THROTTLE_STORE === 'database'
+      ? createPrismaThrottleStore()
+      : createMemoryThrottleStore();
+  }
+  return store;
+};
+
+// Swap the backend, e.g. for a Redis-backed store or a fresh store in tests
+export const setThrottleStore = (newStore: ThrottleStore): void => {
+  store = newStore;
+};
+
+export const accountKey = (email: string) => `account:${email.toLowerCase()}`;
+export const ipKey = (ip: string | undefined) => `ip:${ip || 'unknown'}`;
+export const twoFactorKey = (userId: string) => `twoFactor:${userId}`;
+
+// Seconds until the longest lock among the given keys expires, or 0 if none is locked
+export const getRetryAfter = async (keys: string[]): Promise<number> => {
+  const now = Date.now();
+  let retryAfterMs = 0;
+
+  for (const key of keys) {
+    const record = await getThrottleStore().get(key);
+    if (record?.lockedUntil && record.lockedUntil > now) {
+      retryAfterMs = Math.max(retryAfterMs, record.lockedUntil - now);
+    }
+  }
+
+  return Math.ceil(retryAfterMs / 1000);
+};
+
+// Count a failed attempt. Once maxFailures is reached every further failure locks
+// the key for baseLockoutMs * 2^(extra failures), capped at maxLockoutMs.
+export const registerFailure = async (key: string, policy: ThrottlePolicy): Promise<void> => {
+  const now = Date.now();
+  const existing = await getThrottleStore().get(key);
+  const failures = (existing?.failures || 0) + 1;
+
+  let lockedUntil = existing?.lockedUntil || null;
+  if (failures >= policy.maxFailures) {
+    const lockoutMs = Math.min(
+      policy.baseLockoutMs * Math.pow(2, failures - policy.maxFailures),
+      policy.maxLockoutMs
+    );
+    lockedUntil = now + lockoutMs;
+  }
+
+  await getThrottleStore().set(key, {
+    failures,
+    lockedUntil,
+    expiresAt: Math.max(now + policy.windowMs, lockedUntil || 0)
+  });
+};
+
+export const resetThrottle = async (key: string): Promise<void> => {
+  await getThrottleStore().delete(key);
+};
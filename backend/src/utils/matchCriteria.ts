@@ -0,0 +1,281 @@
+import { Prisma, UserRole } from '@prisma/client';
+import { GeoPoint, parseLocation, boundingBox, distanceKm, resolveCountryCode } from './geo';
+import { normalizeLanguage } from './profileFields';
+import { SchemaShape, field } from './validation';
+
+// Hard filters for potential matches. Which fields apply depends on who is searching:
+// host families filter au pairs, au pairs filter host families.
+export interface MatchCriteria {
+  languages?: string[];   // ISO 639-1. Au pairs: must speak all of them. Families: prefer at least one of them.
+  country?: string;       // ISO 3166-1. Au pairs: listed as a preferred country. Families: located there.
+  minAge?: number;        // Au pair age
+  maxAge?: number;
+  availableFrom?: Date;   // Au pair must be available for the whole window
+  availableTo?: Date;
+  maxHourlyRate?: number; // Au pair hourly rate at most this
+  minBudget?: number;     // Family budget at least this
+  minChildren?: number;
+  maxChildren?: number;
+  verifiedOnly?: boolean; // Only users with at least one verified document
+  near?: GeoPoint & { label: string }; // Families: live within radiusKm. Au pairs: want to live within radiusKm.
+  radiusKm?: number;
+  minCompleteness?: number; // Profiles with a lower completeness percentage are listed last,
+  hideIncomplete?: boolean; // or left out when this is set
+}
+
+const DEFAULT_RADIUS_KM = 50;
+
+// Request schema for the criteria, used for the potential-matches query and saved
+// search bodies. parseMatchCriteria still resolves languages, countries and places.
+export const matchCriteriaShape: SchemaShape = {
+  languages: field.array(field.string(), { optional: true, description: 'Language names or ISO 639-1 codes' }),
+  country: field.string({ optional: true, description: 'Country name or ISO 3166-1 code' }),
+  minAge: field.integer({ optional: true, min: 0 }),
+  maxAge: field.integer({ optional: true, min: 0 }),
+  availableFrom: field.date({ optional: true }),
+  availableTo: field.date({ optional: true }),
+  maxHourlyRate: field.number({ optional: true, min: 0 }),
+  minBudget: field.number({ optional: true, min: 0 }),
+  minChildren: field.integer({ optional: true, min: 0 }),
+  maxChildren: field.integer({ optional: true, min: 0 }),
+  verifiedOnly: field.boolean({ optional: true }),
+  near: field.any({ optional: true, description: 'City name or "latitude,longitude"' }),
+  radiusKm: field.number({ optional: true, min: 0, description: `Defaults to ${DEFAULT_RADIUS_KM}` }),
+  minCompleteness: field.integer({ optional: true, min: 0, max: 100, description: 'Profiles less complete than this are listed last' }),
+  hideIncomplete: field.boolean({ optional: true, description: 'Leave out profiles below minCompleteness instead' })
+};
+
+const parseNumber = (value: unknown): number | undefined | null => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+const parseDate = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Accepts query-string values ("English,German", "25", "true") as well as JSON bodies
+export const parseMatchCriteria = (source: Record<string, any>): { criteria?: MatchCriteria; error?: string } => {
+  const criteria: MatchCriteria = {};
+
+  if (source.languages !== undefined && source.languages !== '') {
+    const languages = (Array.isArray(source.languages) ? source.languages : String(source.languages).split(','))
+      .map((language: any) => String(language).trim())
+      .filter(Boolean);
+    const unknown = languages.find((language: string) => !normalizeLanguage(language));
+    if (unknown) {
+      return { error: `Unknown language: ${unknown}` };
+    }
+    criteria.languages = [...new Set(languages.map((language: string) => normalizeLanguage(language)!))];
+  }
+
+  if (typeof source.country === 'string' && source.country.trim()) {
+    const country = resolveCountryCode(source.country);
+    if (!country) {
+      return { error: `Unknown country: ${source.country.trim()}` };
+    }
+    criteria.country = country;
+  }
+
+  for (const field of ['minAge', 'maxAge', 'maxHourlyRate', 'minBudget', 'minChildren', 'maxChildren'] as const) {
+    const value = parseNumber(source[field]);
+    if (value === null) {
+      return { error: `${field} must be a non-negative number` };
+    }
+    if (value !== undefined) {
+      criteria[field] = value;
+    }
+  }
+
+  for (const field of ['availableFrom', 'availableTo'] as const) {
+    const value = parseDate(source[field]);
+    if (value === null) {
+      return { error: `${field} must be a valid date` };
+    }
+    if (value !== undefined) {
+      criteria[field] = value;
+    }
+  }
+
+  if (criteria.minAge !== undefined && criteria.maxAge !== undefined && criteria.minAge > criteria.maxAge) {
+    return { error: 'minAge cannot be greater than maxAge' };
+  }
+
+  if (criteria.minChildren !== undefined && criteria.maxChildren !== undefined && criteria.minChildren > criteria.maxChildren) {
+    return { error: 'minChildren cannot be greater than maxChildren' };
+  }
+
+  if (criteria.availableFrom && criteria.availableTo && criteria.availableFrom > criteria.availableTo) {
+    return { error: 'availableFrom must be before availableTo' };
+  }
+
+  if (source.near !== undefined && source.near !== '') {
+    // Saved searches store the already-resolved point
+    const near = typeof source.near === 'object'
+      ? (typeof source.near.latitude === 'number' && typeof source.near.longitude === 'number' ? source.near : null)
+      : parseLocation(String(source.near));
+    if (!near) {
+      return { error: 'Unknown location for near. Use a city name or "latitude,longitude"' };
+    }
+
+    const radiusKm = parseNumber(source.radiusKm);
+    if (radiusKm === null || radiusKm === 0) {
+      return { error: 'radiusKm must be a positive number' };
+    }
+
+    criteria.near = { label: near.label || `${near.latitude},${near.longitude}`, latitude: near.latitude, longitude: near.longitude };
+    criteria.radiusKm = radiusKm ?? DEFAULT_RADIUS_KM;
+  }
+
+  if (source.verifiedOnly === true || source.verifiedOnly === 'true') {
+    criteria.verifiedOnly = true;
+  }
+
+  const minCompleteness = parseNumber(source.minCompleteness);
+  if (minCompleteness === null || (minCompleteness !== undefined && minCompleteness > 100)) {
+    return { error: 'minCompleteness must be a percentage from 0 to 100' };
+  }
+  if (minCompleteness) {
+    criteria.minCompleteness = minCompleteness;
+  }
+
+  if (source.hideIncomplete === true || source.hideIncomplete === 'true') {
+    if (!criteria.minCompleteness) {
+      return { error: 'hideIncomplete needs a minCompleteness' };
+    }
+    criteria.hideIncomplete = true;
+  }
+
+  return { criteria };
+};
+
+const yearsAgo = (years: number) => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - years);
+  return date;
+};
+
+// List fields are JSON string arrays, so membership is a match on the quoted value
+const listContains = (value: string) => ({ contains: JSON.stringify(value) });
+
+const buildAuPairProfileFilter = (criteria: MatchCriteria): Prisma.AuPairProfileWhereInput => {
+  const conditions: Prisma.AuPairProfileWhereInput[] = [];
+
+  for (const language of criteria.languages || []) {
+    conditions.push({ languages: listContains(language) });
+  }
+
+  if (criteria.country) {
+    conditions.push({ preferredCountries: listContains(criteria.country) });
+  }
+
+  // Age >= minAge means born on or before today minus minAge years
+  if (criteria.minAge !== undefined) {
+    conditions.push({ dateOfBirth: { lte: yearsAgo(criteria.minAge) } });
+  }
+  if (criteria.maxAge !== undefined) {
+    conditions.push({ dateOfBirth: { gt: yearsAgo(criteria.maxAge + 1) } });
+  }
+
+  if (criteria.availableFrom) {
+    conditions.push({ availableFrom: { lte: criteria.availableFrom } });
+  }
+  if (criteria.availableFrom || criteria.availableTo) {
+    conditions.push({ availableTo: { gte: criteria.availableTo || criteria.availableFrom } });
+  }
+
+  if (criteria.maxHourlyRate !== undefined) {
+    conditions.push({ hourlyRate: { lte: criteria.maxHourlyRate } });
+  }
+
+  if (criteria.hideIncomplete) {
+    conditions.push({ completeness: { gte: criteria.minCompleteness } });
+  }
+
+  if (criteria.near) {
+    const box = boundingBox(criteria.near, criteria.radiusKm || DEFAULT_RADIUS_KM);
+    conditions.push({
+      preferredLatitude: { gte: box.minLatitude, lte: box.maxLatitude },
+      preferredLongitude: { gte: box.minLongitude, lte: box.maxLongitude }
+    });
+  }
+
+  return { AND: conditions };
+};
+
+const buildHostFamilyProfileFilter = (criteria: MatchCriteria): Prisma.HostFamilyProfileWhereInput => {
+  const conditions: Prisma.HostFamilyProfileWhereInput[] = [];
+
+  if (criteria.languages?.length) {
+    conditions.push({ OR: criteria.languages.map(language => ({ preferredLanguages: listContains(language) })) });
+  }
+
+  if (criteria.country) {
+    conditions.push({ country: criteria.country });
+  }
+
+  if (criteria.minBudget !== undefined) {
+    conditions.push({ maxBudget: { gte: criteria.minBudget } });
+  }
+
+  if (criteria.minChildren !== undefined) {
+    conditions.push({ numberOfChildren: { gte: criteria.minChildren } });
+  }
+  if (criteria.maxChildren !== undefined) {
+    conditions.push({ numberOfChildren: { lte: criteria.maxChildren } });
+  }
+
+  if (criteria.hideIncomplete) {
+    conditions.push({ completeness: { gte: criteria.minCompleteness } });
+  }
+
+  if (criteria.near) {
+    const box = boundingBox(criteria.near, criteria.radiusKm || DEFAULT_RADIUS_KM);
+    conditions.push({
+      latitude: { gte: box.minLatitude, lte: box.maxLatitude },
+      longitude: { gte: box.minLongitude, lte: box.maxLongitude }
+    });
+  }
+
+  return { AND: conditions };
+};
+
+// Where clause for candidate users of the opposite role that have a profile matching the criteria
+export const buildCandidateFilter = (searcherRole: UserRole, criteria: MatchCriteria = {}): Prisma.UserWhereInput => {
+  const filter: Prisma.UserWhereInput = searcherRole === 'HOST_FAMILY'
+    ? { role: 'AU_PAIR', auPairProfile: { is: buildAuPairProfileFilter(criteria) } }
+    : { role: 'HOST_FAMILY', hostFamilyProfile: { is: buildHostFamilyProfileFilter(criteria) } };
+
+  if (criteria.verifiedOnly) {
+    filter.documents = { some: { status: 'VERIFIED' } };
+  }
+
+  return filter;
+};
+
+// Without hideIncomplete, minCompleteness splits the candidates into tiers that are
+// listed one after the other: complete enough profiles first, then the rest
+export const buildCompletenessTiers = (searcherRole: UserRole, criteria: MatchCriteria = {}): Prisma.UserWhereInput[] => {
+  if (!criteria.minCompleteness || criteria.hideIncomplete) return [{}];
+
+  const tier = (completeness: Prisma.IntFilter): Prisma.UserWhereInput => searcherRole === 'HOST_FAMILY'
+    ? { auPairProfile: { is: { completeness } } }
+    : { hostFamilyProfile: { is: { completeness } } };
+
+  return [tier({ gte: criteria.minCompleteness }), tier({ lt: criteria.minCompleteness })];
+};
+
+// The database filter only narrows "near" down to a bounding box; this is the exact radius check
+export const isWithinRadius = (
+  criteria: MatchCriteria,
+  point: { latitude: number | null; longitude: number | null } | null
+): boolean => {
+  if (!criteria.near) return true;
+  if (!point || point.latitude == null || point.longitude == null) return false;
+
+  return distanceKm(criteria.near, { latitude: point.latitude, longitude: point.longitude }) <=
+    (criteria.radiusKm || DEFAULT_RADIUS_KM);
+};
@@ -0,0 +1,279 @@
+import { PrismaClient, AuPairProfile, HostFamilyProfile } from '@prisma/client';
+import { calculateMatchScoreBreakdown } from './matching';
+import {
+  MatchFactor,
+  MatchingWeights,
+  ScoringConfig,
+  MATCH_FACTORS,
+  DEFAULT_SCORING_CONFIG,
+  toScoringConfig
+} from './scoringConfig';
+
+// Offline evaluation of scoring configs against past match outcomes, and a
+// logistic regression that proposes weights from them. Everything here takes
+// the Prisma client as an argument so the CLI script can run it without the server.
+
+export interface LabeledMatch {
+  matchId: string;
+  approved: boolean;
+  createdAt: Date;
+  auPairProfile: AuPairProfile;
+  hostProfile: HostFamilyProfile;
+}
+
+export interface EvaluationReport {
+  configVersion: number | null; // null for proposed weights that aren't saved yet
+  weights: MatchingWeights;
+  samples: number;
+  approved: number;
+  rejected: number;
+  threshold: number;
+  // Matches scoring at or above the threshold are predicted to be approved
+  precision: number | null;
+  recall: number | null;
+  accuracy: number | null;
+  // Chance that a random approved match outscores a random rejected one (0.5 = no better than chance)
+  auc: number | null;
+  // Mean precision at each approved match when ranked by score
+  averagePrecision: number | null;
+  meanScore: { approved: number | null; rejected: number | null };
+  // Mean sub-score per factor, split by outcome: factors with a large gap separate good matches
+  factors: { factor: MatchFactor; approved: number | null; rejected: number | null }[];
+}
+
+export interface LearnedWeights {
+  weights: MatchingWeights | null; // null when no factor correlates positively with approval
+  coefficients: Record<MatchFactor, number>;
+  intercept: number;
+  evaluation: EvaluationReport | null;
+}
+
+export const DEFAULT_THRESHOLD = 50;
+export const MIN_SAMPLES_FOR_LEARNING = 20;
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const mean = (values: number[]) => values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length, 1) : null;
+
+// Approved and rejected matches whose profiles still exist. Outcomes are replayed
+// against the profiles as they are now, so edits since the match add some noise.
+export const loadLabeledMatches = async (client: PrismaClient, options: { since?: Date } = {}): Promise<LabeledMatch[]> => {
+  const matches = await client.match.findMany({
+    where: {
+      status: { in: ['APPROVED', 'REJECTED'] },
+      ...(options.since && { createdAt: { gte: options.since } })
+    },
+    include: {
+      host: { select: { hostFamilyProfile: true } },
+      auPair: { select: { auPairProfile: true } }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return matches
+    .filter(match => match.host.hostFamilyProfile && match.auPair.auPairProfile)
+    .map(match => ({
+      matchId: match.id,
+      approved: match.status === 'APPROVED',
+      createdAt: match.createdAt,
+      auPairProfile: match.auPair.auPairProfile!,
+      hostProfile: match.host.hostFamilyProfile!
+    }));
+};
+
+// The active config, a stored version, or the built-in default (version 0)
+export const loadScoringConfig = async (client: PrismaClient, version?: number): Promise<ScoringConfig | null> => {
+  if (version === 0) return DEFAULT_SCORING_CONFIG;
+
+  const config = await client.matchingConfig.findFirst({
+    where: version === undefined ? { isActive: true } : { version }
+  });
+
+  if (config) return toScoringConfig(config);
+  return version === undefined ? DEFAULT_SCORING_CONFIG : null;
+};
+
+const scoreSamples = (samples: LabeledMatch[], config: ScoringConfig) =>
+  samples.map(sample => ({
+    approved: sample.approved,
+    breakdown: calculateMatchScoreBreakdown(sample.auPairProfile, sample.hostProfile, config, sample.createdAt)
+  }));
+
+// Rank-based AUC (Mann-Whitney U), with ties counted as half
+const calculateAuc = (scored: { score: number; approved: boolean }[]) => {
+  const positives = scored.filter(sample => sample.approved).length;
+  const negatives = scored.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  const sorted = [...scored].sort((a, b) => a.score - b.score);
+  let rankSum = 0;
+  for (let i = 0; i < sorted.length;) {
+    let j = i;
+    while (j < sorted.length && sorted[j].score === sorted[i].score) j++;
+    const averageRank = (i + 1 + j) / 2;
+    rankSum += averageRank * sorted.slice(i, j).filter(sample => sample.approved).length;
+    i = j;
+  }
+
+  return round((rankSum - positives * (positives + 1) / 2) / (positives * negatives));
+};
+
+const calculateAveragePrecision = (scored: { score: number; approved: boolean }[]) => {
+  const ranked = [...scored].sort((a, b) => b.score - a.score);
+  let hits = 0;
+  let precisionSum = 0;
+
+  ranked.forEach((sample, index) => {
+    if (!sample.approved) return;
+    hits++;
+    precisionSum += hits / (index + 1);
+  });
+
+  return hits > 0 ? round(precisionSum / hits) : null;
+};
+
+export const evaluateScoringConfig = (
+  samples: LabeledMatch[],
+  config: ScoringConfig,
+  threshold: number = DEFAULT_THRESHOLD
+): EvaluationReport => {
+  const scored = scoreSamples(samples, config);
+  const totals = scored.map(sample => ({ score: sample.breakdown.total, approved: sample.approved }));
+
+  const approved = totals.filter(sample => sample.approved);
+  const rejected = totals.filter(sample => !sample.approved);
+  const predicted = totals.filter(sample => sample.score >= threshold);
+  const truePositives = predicted.filter(sample => sample.approved).length;
+  const trueNegatives = rejected.filter(sample => sample.score < threshold).length;
+
+  const factorScores = (factor: MatchFactor, outcome: boolean) => scored
+    .filter(sample => sample.approved === outcome)
+    .map(sample => sample.breakdown.factors.find(entry => entry.factor === factor)!.score);
+
+  return {
+    configVersion: config.version,
+    weights: config.weights,
+    samples: totals.length,
+    approved: approved.length,
+    rejected: rejected.length,
+    threshold,
+    precision: predicted.length > 0 ? round(truePositives / predicted.length) : null,
+    recall: approved.length > 0 ? round(truePositives / approved.length) : null,
+    accuracy: totals.length > 0 ? round((truePositives + trueNegatives) / totals.length) : null,
+    auc: calculateAuc(totals),
+    averagePrecision: calculateAveragePrecision(totals),
+    meanScore: {
+      approved: mean(approved.map(sample => sample.score)),
+      rejected: mean(rejected.map(sample => sample.score))
+    },
+    factors: MATCH_FACTORS.map(factor => ({
+      factor,
+      approved: mean(factorScores(factor, true)),
+      rejected: mean(factorScores(factor, false))
+    }))
+  };
+};
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+// Turn coefficients into weights that sum to 1, dropping factors that make approval less likely
+const toWeights = (coefficients: Record<MatchFactor, number>): MatchingWeights | null => {
+  const positive = MATCH_FACTORS.map(factor => Math.max(coefficients[factor], 0));
+  const total = positive.reduce((sum, value) => sum + value, 0);
+  if (total === 0) return null;
+
+  const weights = Object.fromEntries(
+    MATCH_FACTORS.map((factor, index) => [factor, round(positive[index] / total)])
+  ) as MatchingWeights;
+
+  // Put the rounding remainder on the largest weight so the sum is exactly 1
+  const largest = MATCH_FACTORS.reduce((best, factor) => weights[factor] > weights[best] ? factor : best);
+  weights[largest] = round(weights[largest] + 1 - MATCH_FACTORS.reduce((sum, factor) => sum + weights[factor], 0));
+
+  return weights;
+};
+
+// Fit P(approved) = sigmoid(intercept + sum(coefficient * subScore / 100)) with L2-regularized
+// gradient descent, using the config's thresholds for the sub-scores
+export const learnWeights = (
+  samples: LabeledMatch[],
+  config: ScoringConfig,
+  options: { iterations?: number; learningRate?: number; l2?: number; threshold?: number } = {}
+): LearnedWeights => {
+  const { iterations = 2000, learningRate = 0.5, l2 = 0.01, threshold = DEFAULT_THRESHOLD } = options;
+
+  const rows = scoreSamples(samples, config).map(sample => ({
+    features: MATCH_FACTORS.map(factor => sample.breakdown.factors.find(entry => entry.factor === factor)!.score / 100),
+    label: sample.approved ? 1 : 0
+  }));
+
+  const coefficients = MATCH_FACTORS.map(() => 0);
+  let intercept = 0;
+
+  for (let iteration = 0; iteration < iterations && rows.length > 0; iteration++) {
+    const gradient = MATCH_FACTORS.map(() => 0);
+    let interceptGradient = 0;
+
+    for (const row of rows) {
+      const error = sigmoid(intercept + row.features.reduce((sum, value, index) => sum + value * coefficients[index], 0)) - row.label;
+      row.features.forEach((value, index) => {
+        gradient[index] += error * value;
+      });
+      interceptGradient += error;
+    }
+
+    coefficients.forEach((coefficient, index) => {
+      coefficients[index] -= learningRate * (gradient[index] / rows.length + l2 * coefficient);
+    });
+    intercept -= learningRate * interceptGradient / rows.length;
+  }
+
+  const coefficientsByFactor = Object.fromEntries(
+    MATCH_FACTORS.map((factor, index) => [factor, round(coefficients[index])])
+  ) as Record<MatchFactor, number>;
+  const weights = toWeights(coefficientsByFactor);
+
+  return {
+    weights,
+    coefficients: coefficientsByFactor,
+    intercept: round(intercept),
+    evaluation: weights
+      ? { ...evaluateScoringConfig(samples, { ...config, weights }, threshold), configVersion: null }
+      : null
+  };
+};
+
+export interface MatchEvaluationOptions {
+  version?: number;   // Config to evaluate; defaults to the active one
+  threshold?: number;
+  since?: Date;       // Only replay matches created since then
+  learn?: boolean;    // Also propose learned weights
+}
+
+// Evaluate a config against past outcomes and optionally propose learned weights.
+// Returns null if the requested config version doesn't exist.
+export const runMatchEvaluation = async (client: PrismaClient, options: MatchEvaluationOptions = {}) => {
+  const config = await loadScoringConfig(client, options.version);
+  if (!config) return null;
+
+  const samples = await loadLabeledMatches(client, { since: options.since });
+  const evaluation = evaluateScoringConfig(samples, config, options.threshold);
+
+  let learned: LearnedWeights | null = null;
+  let learningError: string | null = null;
+
+  if (options.learn) {
+    if (samples.length < MIN_SAMPLES_FOR_LEARNING) {
+      learningError = `At least ${MIN_SAMPLES_FOR_LEARNING} approved or rejected matches are needed to learn weights (found ${samples.length})`;
+    } else if (evaluation.approved === 0 || evaluation.rejected === 0) {
+      learningError = 'Both approved and rejected matches are needed to learn weights';
+    } else {
+      learned = learnWeights(samples, config, { threshold: options.threshold });
+      if (!learned.weights) {
+        learningError = 'No factor makes approval more likely, so no weights could be proposed';
+      }
+    }
+  }
+
+  return { evaluation, learned, learningError };
+};
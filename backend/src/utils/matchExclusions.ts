@@ -0,0 +1,70 @@
+import { Match, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days after a rejection before the pair is suggested to each other again
+export const getRejectionCooldownDays = () =>
+  parseInt(process.env.MATCH_REJECTION_COOLDOWN_DAYS as string) || 90;
+
+const getCooldownStart = (now: Date) => new Date(now.getTime() - getRejectionCooldownDays() * DAY_MS);
+
+// Matches rejected before respondedAt existed fall back to updatedAt
+const isRejectedSince = (since: Date): Prisma.MatchWhereInput => ({
+  status: 'REJECTED',
+  OR: [
+    { respondedAt: { gt: since } },
+    { respondedAt: null, updatedAt: { gt: since } }
+  ]
+});
+
+// Where clause excluding counterparts the user should not be suggested: anyone
+// they liked, passed on or blocked, anyone who blocked them and, unless includeExisting
+// is set, anyone they already have an open match or a recent rejection with
+export const buildExclusionFilter = (
+  userId: string,
+  isHost: boolean,
+  options: { includeExisting?: boolean } = {},
+  now: Date = new Date()
+): Prisma.UserWhereInput => {
+  const conditions: Prisma.UserWhereInput[] = [
+    { likesReceived: { none: { userId } } },
+    { dismissalsReceived: { none: { userId } } },
+    { dismissalsGiven: { none: { targetUserId: userId, type: 'BLOCK' } } }
+  ];
+
+  if (!options.includeExisting) {
+    const existingMatch: Prisma.MatchWhereInput = {
+      OR: [
+        { status: { in: ['PENDING', 'APPROVED'] } },
+        isRejectedSince(getCooldownStart(now))
+      ]
+    };
+
+    conditions.push(isHost
+      ? { auPairMatches: { none: { hostId: userId, ...existingMatch } } }
+      : { hostMatches: { none: { auPairId: userId, ...existingMatch } } });
+  }
+
+  return { AND: conditions };
+};
+
+// True while a rejected match is still within its cooldown
+export const isInRejectionCooldown = (match: Match, now: Date = new Date()) =>
+  match.status === 'REJECTED' && (match.respondedAt || match.updatedAt) > getCooldownStart(now);
+
+// Either user blocked the other
+export const isBlockedBetween = async (userId: string, otherUserId: string) => {
+  const block = await prisma.matchDismissal.findFirst({
+    where: {
+      type: 'BLOCK',
+      OR: [
+        { userId, targetUserId: otherUserId },
+        { userId: otherUserId, targetUserId: userId }
+      ]
+    },
+    select: { id: true }
+  });
+
+  return !!block;
+};
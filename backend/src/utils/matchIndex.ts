@@ -0,0 +1,297 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { calculateMatchScoreBreakdown, MatchScoreBreakdown } from './matching';
+import { getActiveScoringConfig } from './matchingConfig';
+import { MatchCriteria, buildCandidateFilter, buildCompletenessTiers, isWithinRadius } from './matchCriteria';
+import { buildExclusionFilter } from './matchExclusions';
+import { stripSensitiveFields } from './users';
+import { serializeUserProfiles } from './profileFields';
+import { scheduleJob } from './jobRunner';
+
+const RECOMPUTE_BATCH_SIZE = 500;
+const REFRESH_BATCH_SIZE = 50; // Users queued for rescoring per scheduler run
+const CANDIDATE_MAX_AGE_MS = 24 * 60 * 60 * 1000; // Age and availability scores depend on the date
+
+const candidateInclude = {
+  host: { include: { hostFamilyProfile: true } },
+  auPair: { include: { auPairProfile: true } }
+} satisfies Prisma.MatchCandidateInclude;
+
+type CandidateRow = Prisma.MatchCandidateGetPayload<{ include: typeof candidateInclude }> & { tier: number };
+
+export interface CandidateCursor {
+  score: number;
+  id: string;
+  tier?: number; // Completeness tier of the row, see buildCompletenessTiers
+}
+
+// Cursors are opaque to clients: base64url-encoded { score, id, tier } of the last row returned
+const encodeCursor = (cursor: CandidateCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+export const parseCandidateCursor = (value: string): CandidateCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+    return typeof cursor.score === 'number' && typeof cursor.id === 'string' &&
+      (cursor.tier === undefined || Number.isInteger(cursor.tier)) ? cursor : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Score the user against every opposite-role profile and store the results.
+// Inactive counterparts are kept in the index and filtered out when querying.
+export const recomputeCandidatesForUser = async (userId: string): Promise<number> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { auPairProfile: true, hostFamilyProfile: true }
+  });
+
+  if (!user) return 0;
+
+  const isHost = user.role === 'HOST_FAMILY';
+  const ownProfile = isHost ? user.hostFamilyProfile : user.auPairProfile;
+
+  // No profile (or not a matchable role): nothing to score
+  if (!ownProfile) {
+    await prisma.matchCandidate.deleteMany({
+      where: { OR: [{ hostId: userId }, { auPairId: userId }] }
+    });
+    return 0;
+  }
+
+  const config = await getActiveScoringConfig();
+  const startedAt = new Date();
+  let cursor: string | undefined;
+  let computed = 0;
+
+  while (true) {
+    const counterparts = await prisma.user.findMany({
+      where: isHost
+        ? { role: 'AU_PAIR', auPairProfile: { isNot: null } }
+        : { role: 'HOST_FAMILY', hostFamilyProfile: { isNot: null } },
+      include: { auPairProfile: true, hostFamilyProfile: true },
+      orderBy: { id: 'asc' },
+      take: RECOMPUTE_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+
+    if (counterparts.length === 0) break;
+
+    await prisma.$transaction(counterparts.map(counterpart => {
+      const hostId = isHost ? userId : counterpart.id;
+      const auPairId = isHost ? counterpart.id : userId;
+      const breakdown = isHost
+        ? calculateMatchScoreBreakdown(counterpart.auPairProfile, ownProfile, config)
+        : calculateMatchScoreBreakdown(ownProfile, counterpart.hostFamilyProfile, config);
+
+      const data = {
+        score: breakdown.total,
+        scoreBreakdown: JSON.stringify(breakdown),
+        configVersion: config.version,
+        computedAt: new Date()
+      };
+
+      return prisma.matchCandidate.upsert({
+        where: { hostId_auPairId: { hostId, auPairId } },
+        update: data,
+        create: { hostId, auPairId, ...data }
+      });
+    }));
+
+    computed += counterparts.length;
+    cursor = counterparts[counterparts.length - 1].id;
+  }
+
+  // Rows left untouched belong to counterparts that no longer have a profile
+  await prisma.matchCandidate.deleteMany({
+    where: { ...(isHost ? { hostId: userId } : { auPairId: userId }), computedAt: { lt: startedAt } }
+  });
+
+  return computed;
+};
+
+const pendingUserIds = new Set<string>();
+let draining = false;
+
+const drainRecomputeQueue = async () => {
+  draining = true;
+  try {
+    while (pendingUserIds.size > 0) {
+      const [userId] = pendingUserIds;
+      pendingUserIds.delete(userId);
+
+      try {
+        await recomputeCandidatesForUser(userId);
+      } catch (error) {
+        console.error(`Failed to recompute match candidates for user ${userId}:`, error);
+      }
+    }
+  } finally {
+    draining = false;
+  }
+};
+
+// Recompute a user's candidates in the background; repeated calls for the same
+// user before the job runs are collapsed into one
+export const scheduleCandidateRecompute = (userId: string) => {
+  pendingUserIds.add(userId);
+  if (!draining) {
+    setImmediate(drainRecomputeQueue);
+  }
+};
+
+// Rows scored with another config version, before the active config was last edited,
+// or so long ago that their age and availability scores may no longer hold
+const staleCandidateFilter = async (now: Date = new Date()): Promise<Prisma.MatchCandidateWhereInput> => {
+  const config = await getActiveScoringConfig();
+  const activeConfig = await prisma.matchingConfig.findFirst({
+    where: { isActive: true },
+    select: { updatedAt: true }
+  });
+
+  return {
+    OR: [
+      { configVersion: { not: config.version } },
+      { computedAt: { lt: new Date(now.getTime() - CANDIDATE_MAX_AGE_MS) } },
+      ...(activeConfig ? [{ computedAt: { lt: activeConfig.updatedAt } }] : [])
+    ]
+  };
+};
+
+// First-time scoring runs inside the request; parallel requests share one run
+const initialRecomputes = new Map<string, Promise<number>>();
+
+const recomputeOnce = (userId: string) => {
+  let run = initialRecomputes.get(userId);
+  if (!run) {
+    run = recomputeCandidatesForUser(userId).finally(() => initialRecomputes.delete(userId));
+    initialRecomputes.set(userId, run);
+  }
+  return run;
+};
+
+// Make sure the user has rows. Stale rows are served as they are and rescored
+// in the background, so a config change doesn't slow down every next request.
+const ensureCandidatesIndexed = async (userId: string, isHost: boolean) => {
+  const ownRows: Prisma.MatchCandidateWhereInput = isHost ? { hostId: userId } : { auPairId: userId };
+
+  const [anyRow, staleRow] = await Promise.all([
+    prisma.matchCandidate.findFirst({ where: ownRows, select: { id: true } }),
+    staleCandidateFilter().then(stale => prisma.matchCandidate.findFirst({
+      where: { AND: [ownRows, stale] },
+      select: { id: true }
+    }))
+  ]);
+
+  if (!anyRow) {
+    await recomputeOnce(userId);
+  } else if (staleRow) {
+    scheduleCandidateRecompute(userId);
+  }
+};
+
+// Queue the hosts with stale rows for rescoring. Rescoring a host rewrites every row
+// it is part of, so this also covers the au pairs' side.
+export const refreshStaleCandidates = async (now: Date = new Date()): Promise<number> => {
+  // The previous batch is still being worked through
+  if (draining || pendingUserIds.size > 0) return 0;
+
+  const rows = await prisma.matchCandidate.findMany({
+    where: await staleCandidateFilter(now),
+    select: { hostId: true },
+    distinct: ['hostId'],
+    take: REFRESH_BATCH_SIZE
+  });
+
+  rows.forEach(row => scheduleCandidateRecompute(row.hostId));
+  return rows.length;
+};
+
+// Rescore stale candidates until the returned stop function is called
+export const startMatchIndexScheduler = (intervalMs: number = parseInt(process.env.MATCH_INDEX_INTERVAL_MS as string) || 5 * 60 * 1000) => {
+  const stop = scheduleJob('Match index scheduler', intervalMs, () => refreshStaleCandidates());
+
+  console.log(`🧮 Match index scheduler started (checking every ${intervalMs}ms)`);
+
+  return stop;
+};
+
+// Page through the user's precomputed candidates, best score first.
+// Existing matches are left out unless includeExisting is set.
+export const findMatches = async (
+  userId: string,
+  options: { limit?: number; cursor?: CandidateCursor | null; criteria?: MatchCriteria; includeExisting?: boolean } = {}
+): Promise<{ matches: any[]; nextCursor: string | null }> => {
+  const { limit = 20, cursor, criteria = {}, includeExisting = false } = options;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, auPairProfile: { select: { id: true } }, hostFamilyProfile: { select: { id: true } } }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const isHost = user.role === 'HOST_FAMILY';
+  if (isHost ? !user.hostFamilyProfile : user.role !== 'AU_PAIR' || !user.auPairProfile) {
+    return { matches: [], nextCursor: null };
+  }
+
+  await ensureCandidatesIndexed(userId, isHost);
+
+  const tiers = buildCompletenessTiers(user.role, criteria);
+  const candidates: CandidateRow[] = [];
+
+  // Read the tiers in order, each in (score desc, id asc) order, until there is one row
+  // more than the page needs. The cursor's tier is resumed after the cursor row.
+  for (let tier = cursor?.tier ?? 0; tier < tiers.length && candidates.length <= limit; tier++) {
+    const counterpartFilter: Prisma.UserWhereInput = {
+      ...buildCandidateFilter(user.role, criteria),
+      isActive: true,
+      AND: [buildExclusionFilter(userId, isHost, { includeExisting }), tiers[tier]]
+    };
+
+    const where: Prisma.MatchCandidateWhereInput = isHost
+      ? { hostId: userId, auPair: counterpartFilter }
+      : { auPairId: userId, host: counterpartFilter };
+
+    if (cursor && tier === (cursor.tier ?? 0)) {
+      where.OR = [
+        { score: { lt: cursor.score } },
+        { score: cursor.score, id: { gt: cursor.id } }
+      ];
+    }
+
+    const rows = await prisma.matchCandidate.findMany({
+      where,
+      include: candidateInclude,
+      orderBy: [{ score: 'desc' }, { id: 'asc' }],
+      take: limit + 1 - candidates.length
+    });
+
+    candidates.push(...rows.map(row => ({ ...row, tier })));
+  }
+
+  const page = candidates.slice(0, limit);
+  const last = page[page.length - 1];
+
+  // Drop rows inside the "near" bounding box but outside the radius. The cursor still
+  // points at the last row read, so a page can come back short but nothing is skipped.
+  const nearby = page.filter(candidate => isWithinRadius(criteria, isHost
+    ? candidate.auPair.auPairProfile && {
+      latitude: candidate.auPair.auPairProfile.preferredLatitude,
+      longitude: candidate.auPair.auPairProfile.preferredLongitude
+    }
+    : candidate.host.hostFamilyProfile));
+
+  return {
+    matches: nearby.map(candidate => ({
+      ...stripSensitiveFields(serializeUserProfiles(isHost ? candidate.auPair : candidate.host)),
+      matchScore: candidate.score,
+      scoreBreakdown: JSON.parse(candidate.scoreBreakdown) as MatchScoreBreakdown
+    })),
+    nextCursor: candidates.length > limit ? encodeCursor({ score: last.score, id: last.id, tier: last.tier }) : null
+  };
+};
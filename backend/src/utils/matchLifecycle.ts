@@ -0,0 +1,143 @@
+import { prisma } from '../db';
+import { frontendUrl } from './email';
+import { notifyUser } from './notifications';
+import { getDisplayName } from './users';
+import { scheduleJob } from './jobRunner';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const participantSelect = {
+  id: true,
+  email: true,
+  auPairProfile: { select: { firstName: true, lastName: true } },
+  hostFamilyProfile: { select: { familyName: true, contactPersonName: true } }
+};
+
+// Days a match request stays PENDING before it expires
+export const getMatchExpiryDays = () => parseInt(process.env.MATCH_EXPIRY_DAYS as string) || 14;
+
+// Days before expiry at which the recipient is reminded, e.g. "7,1" (latest reminder last)
+export const getReminderDays = (): number[] => {
+  const days = (process.env.MATCH_REMINDER_DAYS || '7,1')
+    .split(',')
+    .map(day => parseFloat(day))
+    .filter(day => Number.isFinite(day) && day > 0 && day < getMatchExpiryDays());
+  return [...new Set(days)].sort((a, b) => b - a);
+};
+
+export const getMatchExpiryDate = (from: Date = new Date()) =>
+  new Date(from.getTime() + getMatchExpiryDays() * DAY_MS);
+
+// Move pending requests past their expiry to EXPIRED and tell whoever sent them.
+// Returns the number of expired matches.
+export const expireMatches = async (now: Date = new Date()): Promise<number> => {
+  // Requests made before expiry existed get a full expiry period from now
+  await prisma.match.updateMany({
+    where: { status: 'PENDING', expiresAt: null },
+    data: { expiresAt: getMatchExpiryDate(now) }
+  });
+
+  const expired = await prisma.match.findMany({
+    where: { status: 'PENDING', expiresAt: { lte: now } },
+    include: {
+      host: { select: participantSelect },
+      auPair: { select: participantSelect }
+    }
+  });
+
+  let count = 0;
+
+  for (const match of expired) {
+    try {
+      // Skip matches that were answered since they were loaded
+      const { count: updated } = await prisma.match.updateMany({
+        where: { id: match.id, status: 'PENDING' },
+        data: { status: 'EXPIRED' }
+      });
+      if (updated === 0) continue;
+
+      const [requester, recipient] = match.initiatedBy === 'HOST_FAMILY'
+        ? [match.host, match.auPair]
+        : [match.auPair, match.host];
+
+      await notifyUser(requester.id, 'MATCH_EXPIRED', {
+        title: 'Match request expired',
+        body: `${getDisplayName(recipient)} didn't answer your match request in time`,
+        data: { matchId: match.id, otherUserId: recipient.id }
+      });
+      count++;
+    } catch (error) {
+      console.error(`Failed to expire match ${match.id}:`, error);
+    }
+  }
+
+  return count;
+};
+
+// Remind recipients of pending requests as the configured reminder points pass.
+// At most one reminder is sent per run, even if several points were missed.
+// Returns the number of reminders sent.
+export const sendMatchReminders = async (now: Date = new Date()): Promise<number> => {
+  const reminderDays = getReminderDays();
+  if (reminderDays.length === 0) return 0;
+
+  const matches = await prisma.match.findMany({
+    where: {
+      status: 'PENDING',
+      expiresAt: { gt: now, lte: new Date(now.getTime() + reminderDays[0] * DAY_MS) },
+      remindersSent: { lt: reminderDays.length }
+    },
+    include: {
+      host: { select: participantSelect },
+      auPair: { select: participantSelect }
+    }
+  });
+
+  let sent = 0;
+
+  for (const match of matches) {
+    try {
+      const daysLeft = (match.expiresAt!.getTime() - now.getTime()) / DAY_MS;
+      const due = reminderDays.filter(day => daysLeft <= day).length;
+      if (due <= match.remindersSent) continue;
+
+      await prisma.match.update({
+        where: { id: match.id },
+        data: { remindersSent: due }
+      });
+
+      const [requester, recipient] = match.initiatedBy === 'HOST_FAMILY'
+        ? [match.host, match.auPair]
+        : [match.auPair, match.host];
+      const requesterName = getDisplayName(requester);
+
+      await notifyUser(recipient.id, 'MATCH_REMINDER', {
+        title: 'Pending match request',
+        body: `${requesterName} is still waiting for your answer`,
+        data: { matchId: match.id, fromUserId: requester.id, expiresAt: match.expiresAt },
+        email: {
+          template: 'matchReminder',
+          data: { senderName: requesterName, expiresAt: match.expiresAt!, url: frontendUrl('/matches') }
+        }
+      });
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send reminder for match ${match.id}:`, error);
+    }
+  }
+
+  return sent;
+};
+
+// Send reminders and expire requests until the returned stop function is called
+export const startMatchLifecycleScheduler = (intervalMs: number = parseInt(process.env.MATCH_LIFECYCLE_INTERVAL_MS as string) || 60 * 60 * 1000) => {
+  const stop = scheduleJob('Match lifecycle scheduler', intervalMs, async () => {
+    const now = new Date();
+    await sendMatchReminders(now);
+    await expireMatches(now);
+  });
+
+  console.log(`⏳ Match lifecycle scheduler started (checking every ${intervalMs}ms)`);
+
+  return stop;
+};
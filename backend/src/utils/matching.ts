@@ -1,183 +1,247 @@
-import { PrismaClient } from '@prisma/client';
+import {
+  MatchFactor,
+  MatchingThresholds,
+  ScoringConfig,
+  MATCH_FACTORS,
+  DEFAULT_SCORING_CONFIG
+} from './scoringConfig';
+import { distanceKm, resolveCountryCode, getCountryName } from './geo';
+import { AU_PAIR_LIST_FIELDS, readList, getLanguageName, listContext } from './profileFields';
+
+export interface FactorScore {
+  factor: MatchFactor;
+  score: number;   // Raw sub-score, 0-100
+  weight: number;
+  points: number;  // score * weight, i.e. the factor's contribution to the total
+  reason: string;
+}
 
-const prisma = new PrismaClient();
+export interface MatchScoreBreakdown {
+  total: number;
+  configVersion: number; // MatchingConfig version whose weights produced this score
+  factors: FactorScore[];
+}
 
-export interface MatchCriteria {
-  languages?: string[];
-  availableFrom?: Date;
-  availableTo?: Date;
-  country?: string;
-  minAge?: number;
-  maxAge?: number;
+interface SubScore {
+  score: number;
+  reason: string;
 }
 
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const calculateMatchScoreBreakdown = (
+  auPairProfile: any,
+  hostProfile: any,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  now: Date = new Date() // Reference date for ages and availability; the evaluator replays past matches
+): MatchScoreBreakdown => {
+  const { weights, thresholds } = config;
+
+  const subScores: Record<MatchFactor, SubScore> = {
+    language: calculateLanguageMatch(
+      readList(auPairProfile.languages, 'language'),
+      readList(hostProfile.preferredLanguages, 'language')
+    ),
+    country: calculateCountryMatch(
+      readList(auPairProfile.preferredCountries, 'country'),
+      resolveCountryCode(hostProfile.country) || hostProfile.country
+    ),
+    age: calculateAgeMatch(auPairProfile.dateOfBirth, readList(hostProfile.childrenAges, 'age'), now, thresholds),
+    availability: calculateAvailabilityMatch(
+      auPairProfile.availableFrom,
+      auPairProfile.availableTo,
+      now, // Current date as host's preferred start
+      thresholds
+    ),
+    budget: calculateBudgetMatch(auPairProfile.hourlyRate, hostProfile.maxBudget, thresholds),
+    distance: calculateDistanceMatch(auPairProfile, hostProfile, thresholds)
+  };
+
+  const factors = MATCH_FACTORS.map(factor => {
+    const { score, reason } = subScores[factor];
+    const weight = weights[factor];
+    return {
+      factor,
+      score: Math.round(score),
+      weight,
+      points: Math.round(score * weight * 10) / 10,
+      reason
+    };
+  });
+
+  const total = factors.reduce((sum, factor) => sum + subScores[factor.factor].score * factor.weight, 0);
+
+  return { total: Math.round(total), configVersion: config.version, factors };
+};
+
 export const calculateMatchScore = (
   auPairProfile: any,
-  hostProfile: any
+  hostProfile: any,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
 ): number => {
-  let score = 0;
-  let maxScore = 100;
-
-  // Language matching (30 points)
-  const languageScore = calculateLanguageMatch(
-    auPairProfile.languages || [],
-    hostProfile.preferredLanguages || []
-  );
-  score += languageScore * 0.3;
-
-  // Country matching (25 points)
-  if (auPairProfile.preferredCountries?.includes(hostProfile.country)) {
-    score += 25;
-  }
-
-  // Age preference matching (20 points)
-  const ageScore = calculateAgeMatch(auPairProfile.dateOfBirth, hostProfile.childrenAges || []);
-  score += ageScore * 0.2;
-
-  // Availability matching (15 points)
-  const availabilityScore = calculateAvailabilityMatch(
-    auPairProfile.availableFrom,
-    auPairProfile.availableTo,
-    new Date() // Current date as host's preferred start
-  );
-  score += availabilityScore * 0.15;
-
-  // Budget matching (10 points)
-  const budgetScore = calculateBudgetMatch(
-    auPairProfile.hourlyRate,
-    hostProfile.maxBudget
-  );
-  score += budgetScore * 0.1;
-
-  return Math.round(score);
+  return calculateMatchScoreBreakdown(auPairProfile, hostProfile, config).total;
 };
 
-const calculateLanguageMatch = (auPairLangs: string[], hostPreferredLangs: string[]): number => {
-  if (hostPreferredLangs.length === 0) return 100; // No preference means all are acceptable
-  
-  const commonLanguages = auPairLangs.filter(lang => 
-    hostPreferredLangs.some(preferred => 
-      preferred.toLowerCase() === lang.toLowerCase()
-    )
-  );
-  
-  return (commonLanguages.length / hostPreferredLangs.length) * 100;
+const calculateLanguageMatch = (auPairLangs: string[], hostPreferredLangs: string[]): SubScore => {
+  if (hostPreferredLangs.length === 0) {
+    return { score: 100, reason: 'Family has no language preference' }; // No preference means all are acceptable
+  }
+
+  // Both lists hold ISO 639-1 codes
+  const commonLanguages = hostPreferredLangs.filter(preferred => auPairLangs.includes(preferred));
+
+  if (commonLanguages.length === 0) {
+    return { score: 0, reason: `Speaks none of the preferred languages (${hostPreferredLangs.map(getLanguageName).join(', ')})` };
+  }
+
+  return {
+    score: (commonLanguages.length / hostPreferredLangs.length) * 100,
+    reason: `Speaks ${commonLanguages.length} of ${hostPreferredLangs.length} preferred languages (${commonLanguages.map(getLanguageName).join(', ')})`
+  };
+};
+
+const calculateCountryMatch = (preferredCountries: string[], hostCountry?: string): SubScore => {
+  // Both sides hold ISO 3166-1 alpha-2 codes
+  if (hostCountry && preferredCountries.includes(hostCountry)) {
+    return { score: 100, reason: `${getCountryName(hostCountry)} is one of the au pair's preferred countries` };
+  }
+
+  if (preferredCountries.length === 0) {
+    return { score: 0, reason: 'Au pair has not listed any preferred countries' };
+  }
+
+  return {
+    score: 0,
+    reason: `${hostCountry ? getCountryName(hostCountry) : 'Family country'} is not among the preferred countries (${preferredCountries.map(getCountryName).join(', ')})`
+  };
 };
 
-const calculateAgeMatch = (auPairBirthDate: Date, childrenAges: number[]): number => {
-  if (!auPairBirthDate || childrenAges.length === 0) return 50; // Neutral score
-  
-  const auPairAge = Math.floor((Date.now() - auPairBirthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
-  
-  // Prefer au pairs aged 18-30 for families with young children (0-10)
-  // Prefer slightly older au pairs (20-35) for families with teens (11-18)
-  const hasYoungChildren = childrenAges.some(age => age <= 10);
-  const hasTeens = childrenAges.some(age => age >= 11);
-  
-  if (hasYoungChildren && auPairAge >= 18 && auPairAge <= 30) return 100;
-  if (hasTeens && auPairAge >= 20 && auPairAge <= 35) return 100;
-  if (auPairAge >= 18 && auPairAge <= 35) return 70; // Generally acceptable
-  
-  return 30; // Outside preferred age range
+const calculateAgeMatch = (
+  auPairBirthDate: Date,
+  childrenAges: number[],
+  now: Date, // The au pair's age is taken on this date
+  thresholds: MatchingThresholds
+): SubScore => {
+  if (!auPairBirthDate || childrenAges.length === 0) {
+    return { score: 50, reason: 'Not enough information to compare ages' }; // Neutral score
+  }
+
+  const auPairAge = Math.floor((now.getTime() - new Date(auPairBirthDate).getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+  const ages = childrenAges.join(', ');
+  const { youngChildMaxAge, youngChildren, teens, acceptable } = thresholds.ageBands;
+  const inBand = (band: { minAge: number; maxAge: number }) => auPairAge >= band.minAge && auPairAge <= band.maxAge;
+
+  // By default: prefer au pairs aged 18-30 for families with young children (0-10)
+  // and slightly older au pairs (20-35) for families with teens (11-18)
+  const hasYoungChildren = childrenAges.some(age => age <= youngChildMaxAge);
+  const hasTeens = childrenAges.some(age => age > youngChildMaxAge);
+
+  if (hasYoungChildren && inBand(youngChildren)) {
+    return { score: 100, reason: `Au pair age ${auPairAge} is ideal for young children (ages ${ages})` };
+  }
+  if (hasTeens && inBand(teens)) {
+    return { score: 100, reason: `Au pair age ${auPairAge} is ideal for teenagers (ages ${ages})` };
+  }
+  if (inBand(acceptable)) {
+    return { score: 70, reason: `Au pair age ${auPairAge} is acceptable for children aged ${ages}` }; // Generally acceptable
+  }
+
+  return {
+    score: 30,
+    reason: `Au pair age ${auPairAge} is outside the preferred ${acceptable.minAge}-${acceptable.maxAge} range`
+  };
 };
 
 const calculateAvailabilityMatch = (
-  auPairFrom?: Date,
-  auPairTo?: Date,
-  hostPreferredStart?: Date
-): number => {
-  if (!auPairFrom || !auPairTo || !hostPreferredStart) return 50; // Neutral score
-  
+  auPairFrom: Date | undefined,
+  auPairTo: Date | undefined,
+  hostPreferredStart: Date | undefined,
+  thresholds: MatchingThresholds
+): SubScore => {
+  if (!auPairFrom || !auPairTo || !hostPreferredStart) {
+    return { score: 50, reason: 'Availability dates not provided' }; // Neutral score
+  }
+
+  const from = new Date(auPairFrom);
+  const to = new Date(auPairTo);
+  const range = `${formatDate(from)} to ${formatDate(to)}`;
+
   // Check if host's preferred start date falls within au pair's availability
-  if (hostPreferredStart >= auPairFrom && hostPreferredStart <= auPairTo) {
-    return 100;
+  if (hostPreferredStart >= from && hostPreferredStart <= to) {
+    return { score: 100, reason: `Available now (${range})` };
   }
-  
-  // Calculate how far off the dates are (within 3 months gets partial score)
-  const timeDiff = Math.abs(hostPreferredStart.getTime() - auPairFrom.getTime());
+
+  // Partial score depending on how far off the dates are (30/90/180 days by default)
+  const timeDiff = Math.abs(hostPreferredStart.getTime() - from.getTime());
   const daysDiff = timeDiff / (1000 * 60 * 60 * 24);
-  
-  if (daysDiff <= 30) return 80;   // Within a month
-  if (daysDiff <= 90) return 60;   // Within 3 months
-  if (daysDiff <= 180) return 30;  // Within 6 months
-  
-  return 10; // More than 6 months apart
+  const window = thresholds.availabilityWindows.find(step => daysDiff <= step.maxDays);
+
+  return {
+    score: window ? window.score : 10,
+    reason: `Availability (${range}) starts ${Math.round(daysDiff)} days from the preferred start`
+  };
 };
 
-const calculateBudgetMatch = (auPairRate?: number, hostBudget?: number): number => {
-  if (!auPairRate || !hostBudget) return 50; // Neutral score
-  
-  if (auPairRate <= hostBudget) return 100;
-  
-  // Partial score if slightly over budget
+const calculateBudgetMatch = (
+  auPairRate: number | undefined,
+  hostBudget: number | undefined,
+  thresholds: MatchingThresholds
+): SubScore => {
+  if (!auPairRate || !hostBudget) {
+    return { score: 50, reason: 'Hourly rate or budget not provided' }; // Neutral score
+  }
+
+  if (auPairRate <= hostBudget) {
+    return { score: 100, reason: `Hourly rate ${auPairRate} is within the budget of ${hostBudget}` };
+  }
+
+  // Partial score if slightly over budget (up to 20% / 50% over by default)
   const overBudgetRatio = auPairRate / hostBudget;
-  if (overBudgetRatio <= 1.2) return 70; // Up to 20% over budget
-  if (overBudgetRatio <= 1.5) return 40; // Up to 50% over budget
-  
-  return 10; // More than 50% over budget
+  const step = thresholds.budgetTolerance.find(tolerance => overBudgetRatio <= tolerance.maxRatio);
+
+  return {
+    score: step ? step.score : 10,
+    reason: `Hourly rate ${auPairRate} is ${Math.round((overBudgetRatio - 1) * 100)}% over the budget of ${hostBudget}`
+  };
 };
 
-export const findMatches = async (
-  userId: string,
-  limit: number = 20
-): Promise<any[]> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    include: {
-      auPairProfile: true,
-      hostFamilyProfile: true
-    }
-  });
+const calculateDistanceMatch = (auPairProfile: any, hostProfile: any, thresholds: MatchingThresholds): SubScore => {
+  const preferredRegions = readList(auPairProfile.preferredRegions, 'region', listContext(AU_PAIR_LIST_FIELDS, auPairProfile));
+  const hasPreferredPoint = auPairProfile.preferredLatitude != null && auPairProfile.preferredLongitude != null;
+  const hostIsMapped = hostProfile.latitude != null && hostProfile.longitude != null;
+  const hostPlace = hostProfile.city || hostProfile.location || 'The family';
+
+  if (preferredRegions.length === 0 && !hasPreferredPoint) {
+    return { score: 100, reason: 'Au pair has no location preference' };
+  }
+
+  if (hostProfile.region && preferredRegions.some(region => region.toLowerCase() === hostProfile.region.toLowerCase())) {
+    return { score: 100, reason: `${hostPlace} is in the preferred region ${hostProfile.region}` };
+  }
+
+  if (hasPreferredPoint && hostIsMapped) {
+    const distance = distanceKm(
+      { latitude: auPairProfile.preferredLatitude, longitude: auPairProfile.preferredLongitude },
+      { latitude: hostProfile.latitude, longitude: hostProfile.longitude }
+    );
+    const maxDistance = auPairProfile.maxDistanceKm || thresholds.defaultMaxDistanceKm;
+    const window = thresholds.distanceWindows.find(step => distance <= maxDistance * step.maxRatio);
+
+    return {
+      score: window ? window.score : 0,
+      reason: `${hostPlace} is ${Math.round(distance)} km from ${auPairProfile.preferredLocation || 'the preferred location'} (preferred within ${Math.round(maxDistance)} km)`
+    };
+  }
+
+  if (preferredRegions.length > 0 && hostProfile.region) {
+    return { score: 0, reason: `${hostProfile.region} is not among the preferred regions (${preferredRegions.join(', ')})` };
+  }
+
+  return { score: 50, reason: 'Family location could not be placed on the map' }; // Neutral score
+};
 
-  if (!user) {
-    throw new Error('User not found');
-  }
-
-  let potentialMatches: any[] = [];
-
-  if (user.role === 'AU_PAIR' && user.auPairProfile) {
-    // Find host families for this au pair
-    const hostFamilies = await prisma.user.findMany({
-      where: {
-        role: 'HOST_FAMILY',
-        isActive: true,
-        id: { not: userId }
-      },
-      include: {
-        hostFamilyProfile: true
-      }
-    });
-
-    potentialMatches = hostFamilies
-      .filter(host => host.hostFamilyProfile)
-      .map(host => ({
-        ...host,
-        matchScore: calculateMatchScore(user.auPairProfile, host.hostFamilyProfile)
-      }));
-
-  } else if (user.role === 'HOST_FAMILY' && user.hostFamilyProfile) {
-    // Find au pairs for this host family
-    const auPairs = await prisma.user.findMany({
-      where: {
-        role: 'AU_PAIR',
-        isActive: true,
-        id: { not: userId }
-      },
-      include: {
-        auPairProfile: true
-      }
-    });
-
-    potentialMatches = auPairs
-      .filter(auPair => auPair.auPairProfile)
-      .map(auPair => ({
-        ...auPair,
-        matchScore: calculateMatchScore(auPair.auPairProfile, user.hostFamilyProfile)
-      }));
-  }
-
-  // Sort by match score and return top matches
-  return potentialMatches
-    .sort((a, b) => b.matchScore - a.matchScore)
-    .slice(0, limit);
-};
\ No newline at end of file
+// Matches store `scoreBreakdown` as a JSON string; clients get it parsed
+export const serializeMatch = <T extends { scoreBreakdown: string | null }>(match: T) => ({
+  ...match,
+  scoreBreakdown: match.scoreBreakdown ? JSON.parse(match.scoreBreakdown) as MatchScoreBreakdown : null
+});
@@ -0,0 +1,18 @@
+import { MatchingConfig } from '@prisma/client';
+import { prisma } from '../db';
+import { MatchingWeights, MatchingThresholds, ScoringConfig, DEFAULT_SCORING_CONFIG, toScoringConfig } from './scoringConfig';
+
+// Admin-facing shape with weights and thresholds parsed
+export const serializeMatchingConfig = (config: MatchingConfig) => ({
+  ...config,
+  weights: JSON.parse(config.weights) as MatchingWeights,
+  thresholds: JSON.parse(config.thresholds) as MatchingThresholds
+});
+
+export const getActiveScoringConfig = async (): Promise<ScoringConfig> => {
+  const config = await prisma.matchingConfig.findFirst({
+    where: { isActive: true }
+  });
+
+  return config ? toScoringConfig(config) : DEFAULT_SCORING_CONFIG;
+};
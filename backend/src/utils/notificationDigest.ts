@@ -0,0 +1,148 @@
+import { prisma } from '../db';
+import { enqueueEmail } from './emailQueue';
+import { frontendUrl } from './email';
+import { DigestEntry } from './emailTemplates';
+import { getMessagePreview } from './notifications';
+import {
+  getNotificationPreferences,
+  getEmailMode,
+  getLocalTime,
+  getQuietHoursRemaining
+} from './notificationPreferences';
+import { getDisplayName } from './users';
+import { scheduleJob } from './jobRunner';
+
+const senderSelect = {
+  email: true,
+  auPairProfile: { select: { firstName: true, lastName: true } },
+  hostFamilyProfile: { select: { familyName: true, contactPersonName: true } }
+};
+
+// Pending match requests the user received (i.e. initiated by the other side)
+const incomingMatchFilter = (userId: string) => ({
+  status: 'PENDING' as const,
+  OR: [
+    { hostId: userId, initiatedBy: 'AU_PAIR' as const },
+    { auPairId: userId, initiatedBy: 'HOST_FAMILY' as const }
+  ]
+});
+
+// Users with something a digest could report on
+const findDigestCandidates = async () => {
+  const [unreadMessages, pendingMatches] = await Promise.all([
+    prisma.message.findMany({
+      where: { isRead: false },
+      select: { receiverId: true },
+      distinct: ['receiverId']
+    }),
+    prisma.match.findMany({
+      where: { status: 'PENDING' },
+      select: { hostId: true, auPairId: true, initiatedBy: true }
+    })
+  ]);
+
+  const userIds = new Set(unreadMessages.map(message => message.receiverId));
+  for (const match of pendingMatches) {
+    userIds.add(match.initiatedBy === 'AU_PAIR' ? match.hostId : match.auPairId);
+  }
+
+  return [...userIds];
+};
+
+// Build and queue one user's digest. Returns true if an email was queued.
+const sendDigestToUser = async (userId: string, now: Date): Promise<boolean> => {
+  const preferences = await getNotificationPreferences(userId);
+  const digestMessages = getEmailMode(preferences, 'messages') === 'DIGEST';
+  const digestMatches = getEmailMode(preferences, 'matches') === 'DIGEST';
+
+  if (!digestMessages && !digestMatches) return false;
+
+  // Once per local day, from the chosen hour on, and never during quiet hours
+  const local = getLocalTime(now, preferences.timeZone);
+  if (local.minutes < preferences.digestHour * 60) return false;
+  if (getQuietHoursRemaining(preferences, now) > 0) return false;
+
+  const since = preferences.lastDigestSentAt;
+  if (since && getLocalTime(since, preferences.timeZone).dateKey === local.dateKey) return false;
+
+  const createdAfter = since ? { gt: since } : undefined;
+
+  const entries: DigestEntry[] = [];
+  if (digestMessages) {
+    const messages = await prisma.message.findMany({
+      where: { receiverId: userId, isRead: false, createdAt: createdAfter },
+      include: { sender: { select: senderSelect } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    // One line per sender, previewing their latest message
+    const bySender = new Map<string, DigestEntry>();
+    for (const message of messages) {
+      const entry = bySender.get(message.senderId);
+      if (entry) {
+        entry.count++;
+      } else {
+        bySender.set(message.senderId, {
+          senderName: getDisplayName(message.sender),
+          count: 1,
+          preview: getMessagePreview(message.content)
+        });
+      }
+    }
+    entries.push(...bySender.values());
+  }
+
+  const pendingMatchRequests = digestMatches
+    ? await prisma.match.count({
+      where: { ...incomingMatchFilter(userId), createdAt: createdAfter }
+    })
+    : 0;
+
+  if (entries.length === 0 && pendingMatchRequests === 0) return false;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, locale: true, isActive: true }
+  });
+
+  if (!user || !user.isActive) return false;
+
+  await enqueueEmail(user.email, 'messageDigest', {
+    entries,
+    pendingMatchRequests,
+    url: frontendUrl(entries.length > 0 ? '/messages' : '/matches')
+  }, user.locale);
+
+  await prisma.notificationPreference.upsert({
+    where: { userId },
+    update: { lastDigestSentAt: now },
+    create: { userId, lastDigestSentAt: now }
+  });
+
+  return true;
+};
+
+// Queue daily digests for every user whose digest is due. Returns the number queued.
+export const sendDigests = async (now: Date = new Date()): Promise<number> => {
+  const userIds = await findDigestCandidates();
+  let sent = 0;
+
+  for (const userId of userIds) {
+    try {
+      if (await sendDigestToUser(userId, now)) sent++;
+    } catch (error) {
+      console.error(`Failed to send digest to user ${userId}:`, error);
+    }
+  }
+
+  return sent;
+};
+
+// Check for due digests until the returned stop function is called
+export const startDigestScheduler = (intervalMs: number = parseInt(process.env.DIGEST_INTERVAL_MS as string) || 15 * 60 * 1000) => {
+  const stop = scheduleJob('Digest scheduler', intervalMs, () => sendDigests());
+
+  console.log(`📬 Digest scheduler started (checking every ${intervalMs}ms)`);
+
+  return stop;
+};
@@ -0,0 +1,128 @@
+import { EmailDeliveryMode, NotificationType } from '@prisma/client';
+import { prisma } from '../db';
+
+export type NotificationCategory = 'messages' | 'matches' | 'bookings' | 'documents';
+
+export interface NotificationPreferences {
+  messagesEmail: EmailDeliveryMode;
+  matchesEmail: EmailDeliveryMode;
+  bookingsEmail: EmailDeliveryMode;
+  documentsEmail: EmailDeliveryMode;
+  timeZone: string;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  digestHour: number;
+  lastDigestSentAt: Date | null;
+}
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  messagesEmail: 'DIGEST',
+  matchesEmail: 'INSTANT',
+  bookingsEmail: 'INSTANT',
+  documentsEmail: 'INSTANT',
+  timeZone: 'UTC',
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  digestHour: 8,
+  lastDigestSentAt: null
+};
+
+// Only messages and match requests are batched into the digest
+export const ALLOWED_MODES: Record<NotificationCategory, EmailDeliveryMode[]> = {
+  messages: ['INSTANT', 'DIGEST', 'OFF'],
+  matches: ['INSTANT', 'DIGEST', 'OFF'],
+  bookings: ['INSTANT', 'OFF'],
+  documents: ['INSTANT', 'OFF']
+};
+
+export const NOTIFICATION_CATEGORIES: Record<NotificationType, NotificationCategory> = {
+  MATCH_REQUEST: 'matches',
+  MATCH_APPROVED: 'matches',
+  MATCH_REJECTED: 'matches',
+  BOOKING_CREATED: 'bookings',
+  BOOKING_STATUS_CHANGED: 'bookings',
+  DOCUMENT_VERIFIED: 'documents',
+  DOCUMENT_REJECTED: 'documents',
+  NEW_MESSAGE: 'messages',
+  SAVED_SEARCH_RESULTS: 'matches',
+  MUTUAL_MATCH: 'matches',
+  MATCH_REMINDER: 'matches',
+  MATCH_EXPIRED: 'matches'
+};
+
+export const getNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId }
+  });
+
+  return preference || DEFAULT_PREFERENCES;
+};
+
+// Fields users can see and change
+export const serializePreferences = (preferences: NotificationPreferences) => ({
+  messagesEmail: preferences.messagesEmail,
+  matchesEmail: preferences.matchesEmail,
+  bookingsEmail: preferences.bookingsEmail,
+  documentsEmail: preferences.documentsEmail,
+  timeZone: preferences.timeZone,
+  quietHoursStart: preferences.quietHoursStart,
+  quietHoursEnd: preferences.quietHoursEnd,
+  digestHour: preferences.digestHour
+});
+
+export const getEmailMode = (preferences: NotificationPreferences, category: NotificationCategory): EmailDeliveryMode => {
+  return preferences[`${category}Email` as const];
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidTimeOfDay = (value: string): boolean => TIME_PATTERN.test(value);
+
+const toMinutes = (value: string) => {
+  const [, hours, minutes] = value.match(TIME_PATTERN)!;
+  return parseInt(hours) * 60 + parseInt(minutes);
+};
+
+// Wall-clock date and minutes since midnight of `date` in the given time zone
+export const getLocalTime = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(part => part.type === type)!.value;
+
+  return {
+    dateKey: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: parseInt(get('hour')) * 60 + parseInt(get('minute'))
+  };
+};
+
+// Minutes until quiet hours end, or 0 if `date` is outside quiet hours
+export const getQuietHoursRemaining = (preferences: NotificationPreferences, date: Date = new Date()): number => {
+  if (!preferences.quietHoursStart || !preferences.quietHoursEnd) return 0;
+
+  const start = toMinutes(preferences.quietHoursStart);
+  const end = toMinutes(preferences.quietHoursEnd);
+  const { minutes: now } = getLocalTime(date, preferences.timeZone);
+
+  const inQuietHours = start <= end
+    ? now >= start && now < end
+    : now >= start || now < end; // Window wraps past midnight, e.g. 22:00-07:00
+
+  return inQuietHours ? (end - now + 24 * 60) % (24 * 60) : 0;
+};
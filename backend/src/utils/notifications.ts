@@ -0,0 +1,89 @@
+import { Notification, NotificationType } from '@prisma/client';
+import { prisma } from '../db';
+import { io } from '../sockets/io';
+import { enqueueEmail } from './emailQueue';
+import { TemplateDataMap, TemplateName } from './emailTemplates';
+import {
+  NOTIFICATION_CATEGORIES,
+  getNotificationPreferences,
+  getEmailMode,
+  getQuietHoursRemaining
+} from './notificationPreferences';
+
+export type NotificationEmail = {
+  [K in TemplateName]: { template: K; data: TemplateDataMap[K] }
+}[TemplateName];
+
+export interface NotificationPayload {
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  // Sent right away when the user has this category set to INSTANT
+  email?: NotificationEmail;
+}
+
+// Notifications store `data` as a JSON string; clients get it parsed
+export const serializeNotification = (notification: Notification) => ({
+  ...notification,
+  data: notification.data ? JSON.parse(notification.data) : null
+});
+
+// Short single-line excerpt of a message for notifications and emails
+export const getMessagePreview = (content: string) =>
+  content.length > 50 ? content.substring(0, 47) + '...' : content;
+
+// Queue the email for an instant-mode category, holding it back until quiet hours end
+const sendInstantEmail = async (userId: string, type: NotificationType, email: NotificationEmail) => {
+  const preferences = await getNotificationPreferences(userId);
+
+  if (getEmailMode(preferences, NOTIFICATION_CATEGORIES[type]) !== 'INSTANT') return;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, locale: true, isActive: true }
+  });
+
+  if (!user || !user.isActive) return;
+
+  const quietMinutesLeft = getQuietHoursRemaining(preferences);
+  const sendAt = quietMinutesLeft > 0 ? new Date(Date.now() + quietMinutesLeft * 60 * 1000) : undefined;
+
+  await enqueueEmail<TemplateName>(user.email, email.template, email.data, user.locale, { sendAt });
+};
+
+// Persist a notification and push it to the user's socket room. Failures are
+// logged but never break the request that triggered the event.
+export const notifyUser = async (
+  userId: string,
+  type: NotificationType,
+  payload: NotificationPayload
+) => {
+  try {
+    const notification = await prisma.notification.create({
+      data: {
+        userId,
+        type,
+        title: payload.title,
+        body: payload.body,
+        data: payload.data ? JSON.stringify(payload.data) : null
+      }
+    });
+
+    io.to(`user_${userId}`).emit('notification', serializeNotification(notification));
+
+    if (payload.email) {
+      await sendInstantEmail(userId, type, payload.email);
+    }
+
+    return notification;
+  } catch (error) {
+    console.error(`Failed to create ${type} notification for user ${userId}:`, error);
+    return null;
+  }
+};
+
+export const getUnreadNotificationCount = (userId: string) => {
+  return prisma.notification.count({
+    where: { userId, isRead: false }
+  });
+};
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OidcProviderConfig } from '../config/oidc';
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with ${response.status}: ${JSON.stringify(body)}`);
+  }
+
+  return body;
+};
+
+export const getDiscoveryDocument = async (issuer: string): Promise<DiscoveryDocument> => {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.document;
+  }
+
+  const document = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+  discoveryCache.set(issuer, { document, fetchedAt: Date.now() });
+  return document;
+};
+
+const getSigningKey = async (jwksUri: string, kid?: string): Promise<crypto.KeyObject> => {
+  const findKey = (keys: any[]) => keys.find(key => (!kid || key.kid === kid) && key.use !== 'enc');
+
+  let cached = jwksCache.get(jwksUri);
+  let jwk = cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS ? findKey(cached.keys) : undefined;
+
+  // Unknown kid usually means the provider rotated its keys, so refetch once
+  if (!jwk) {
+    const { keys } = await fetchJson(jwksUri);
+    cached = { keys, fetchedAt: Date.now() };
+    jwksCache.set(jwksUri, cached);
+    jwk = findKey(keys);
+  }
+
+  if (!jwk) {
+    throw new Error(`No signing key found for kid ${kid}`);
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+const base64Url = (buffer: Buffer) => buffer.toString('base64url');
+
+export const generatePkcePair = () => {
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+  return { codeVerifier, codeChallenge };
+};
+
+export const generateRandomToken = () => base64Url(crypto.randomBytes(32));
+
+// Read one cookie from a Cookie header (the app doesn't use a cookie parser)
+export const readCookie = (cookieHeader: string | undefined, name: string): string | undefined => {
+  for (const pair of (cookieHeader || '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+};
+
+export const buildAuthorizationUrl = async (
+  provider: OidcProviderConfig,
+  params: { state: string; nonce: string; codeChallenge: string }
+): Promise<string> => {
+  const discovery = await getDiscoveryDocument(provider.issuer);
+  const url = new URL(discovery.authorization_endpoint);
+
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', provider.redirectUri);
+  url.searchParams.set('scope', provider.scopes.join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return url.toString();
+};
+
+// Exchange the authorization code and verify the returned ID token
+export const exchangeCodeForClaims = async (
+  provider: OidcProviderConfig,
+  params: { code: string; codeVerifier: string; nonce: string }
+): Promise<OidcClaims> => {
+  const discovery = await getDiscoveryDocument(provider.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: provider.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: params.codeVerifier
+  });
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const tokens = await fetchJson(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: body.toString()
+  });
+
+  if (!tokens.id_token) {
+    throw new Error('Token response did not include an id_token');
+  }
+
+  const header = jwt.decode(tokens.id_token, { complete: true })?.header;
+  const signingKey = await getSigningKey(discovery.jwks_uri, header?.kid);
+
+  const claims = jwt.verify(tokens.id_token, signingKey, {
+    algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'],
+    issuer: discovery.issuer,
+    audience: provider.clientId
+  }) as any;
+
+  if (claims.nonce !== params.nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+
+  return {
+    subject: claims.sub,
+    email: claims.email ? String(claims.email).toLowerCase() : undefined,
+    // Some providers (e.g. Apple) send the flag as a string
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: claims.name
+  };
+};
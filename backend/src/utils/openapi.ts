@@ -0,0 +1,465 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { authMiddleware } from '../middleware/auth';
+import { FieldSchema, RouteSpec, SchemaShape, field } from './validation';
+import { SENSITIVE_USER_FIELDS } from './users';
+import { matchCriteriaShape } from './matchCriteria';
+import { MATCH_FACTORS } from './scoringConfig';
+
+// OpenAPI 3.1 document built from the mounted routers: paths and methods come from
+// Express, request and response schemas from each route's spec (see middleware/validate),
+// auth requirements from the auth and role middleware, and model schemas from Prisma.
+
+export interface ApiMount {
+  prefix: string;
+  router: Router;
+  tag: string;
+  requiresAuth?: boolean; // authMiddleware is applied where the router is mounted
+}
+
+interface Operation {
+  method: string;
+  path: string;
+  tag: string;
+  spec?: RouteSpec;
+  requiresAuth: boolean;
+  roles?: string[];
+}
+
+type JsonSchema = Record<string, unknown>;
+
+// Models that are internal bookkeeping and never returned by the API
+const HIDDEN_MODELS = ['LoginThrottle', 'OidcAuthRequest', 'MatchCandidate', 'UserIdentity'];
+
+const HIDDEN_FIELDS: Record<string, readonly string[]> = {
+  User: SENSITIVE_USER_FIELDS,
+  Session: ['refreshTokenHash']
+};
+
+// Columns stored as JSON strings but returned parsed
+const SERIALIZED_FIELDS: Record<string, SchemaShape> = {
+  AuPairProfile: {
+    languages: field.array(field.string(), { description: 'ISO 639-1 codes' }),
+    skills: field.array(field.string()),
+    preferredCountries: field.array(field.string(), { description: 'ISO 3166-1 alpha-2 codes' }),
+    preferredRegions: field.array(field.string())
+  },
+  HostFamilyProfile: {
+    childrenAges: field.array(field.integer()),
+    preferredLanguages: field.array(field.string(), { description: 'ISO 639-1 codes' })
+  },
+  Match: {
+    scoreBreakdown: field.object({
+      total: field.number(),
+      configVersion: field.integer(),
+      factors: field.array(field.object({
+        factor: field.enum(MATCH_FACTORS),
+        score: field.number({ description: 'Raw sub-score, 0-100' }),
+        weight: field.number(),
+        points: field.number(),
+        reason: field.string()
+      }))
+    }, { nullable: true })
+  },
+  SavedSearch: {
+    criteria: field.object(matchCriteriaShape)
+  },
+  MatchingConfig: {
+    weights: field.object(Object.fromEntries(MATCH_FACTORS.map(factor => [factor, field.number()]))),
+    thresholds: field.any()
+  },
+  Notification: {
+    data: field.any({ nullable: true, description: 'Ids of the related match, booking, document or message' })
+  }
+};
+
+const SCALAR_TYPES: Record<string, JsonSchema> = {
+  String: { type: 'string' },
+  Int: { type: 'integer' },
+  Float: { type: 'number' },
+  Boolean: { type: 'boolean' },
+  DateTime: { type: 'string', format: 'date-time' },
+  Json: {}
+};
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Not authenticated: missing or expired access token, or wrong credentials',
+  403: 'Not allowed',
+  404: 'Not found',
+  409: 'Conflict with the current state',
+  429: 'Too many attempts; retry after the number of seconds in Retry-After',
+  500: 'Internal server error'
+};
+
+const withNullable = (schema: JsonSchema, nullable?: boolean): JsonSchema => {
+  if (!nullable) return schema;
+  if (typeof schema.type === 'string') return { ...schema, type: [schema.type, 'null'] };
+  return { oneOf: [schema, { type: 'null' }] };
+};
+
+export const toJsonSchema = (schema: FieldSchema): JsonSchema => {
+  let json: JsonSchema;
+
+  switch (schema.type) {
+    case 'string':
+      json = {
+        type: 'string',
+        ...(schema.enum && { enum: [...schema.enum] }),
+        ...(schema.minLength !== undefined && { minLength: schema.minLength }),
+        ...(schema.maxLength !== undefined && { maxLength: schema.maxLength }),
+        ...(schema.pattern && { pattern: schema.pattern.source }),
+        ...(schema.format && { format: schema.format })
+      };
+      break;
+    case 'number':
+    case 'integer':
+      json = {
+        type: schema.type,
+        ...(schema.min !== undefined && { minimum: schema.min }),
+        ...(schema.max !== undefined && { maximum: schema.max })
+      };
+      break;
+    case 'boolean':
+      json = { type: 'boolean' };
+      break;
+    case 'date':
+      json = { type: 'string', format: 'date-time' };
+      break;
+    case 'array':
+      json = {
+        type: 'array',
+        items: toJsonSchema(schema.items),
+        ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+        ...(schema.maxItems !== undefined && { maxItems: schema.maxItems })
+      };
+      break;
+    case 'object':
+      json = toObjectSchema(schema.properties);
+      break;
+    case 'ref':
+      json = { $ref: `#/components/schemas/${schema.name}` };
+      break;
+    case 'any':
+      json = {};
+      break;
+  }
+
+  return {
+    ...withNullable(json, schema.nullable),
+    ...(schema.description && { description: schema.description }),
+    ...(schema.default !== undefined && { default: schema.default })
+  };
+};
+
+export const toObjectSchema = (shape: SchemaShape): JsonSchema => {
+  const required = Object.entries(shape).filter(([, schema]) => !schema.optional).map(([name]) => name);
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(shape).map(([name, schema]) => [name, toJsonSchema(schema)])),
+    ...(required.length > 0 && { required })
+  };
+};
+
+// One component schema per Prisma model and enum. Relations are optional because
+// each route includes only some of them.
+const buildModelSchemas = (): Record<string, JsonSchema> => {
+  const schemas: Record<string, JsonSchema> = {};
+
+  for (const enumType of Prisma.dmmf.datamodel.enums) {
+    schemas[enumType.name] = { type: 'string', enum: enumType.values.map(value => value.name) };
+  }
+
+  for (const model of Prisma.dmmf.datamodel.models) {
+    if (HIDDEN_MODELS.includes(model.name)) continue;
+
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const modelField of model.fields) {
+      if (HIDDEN_FIELDS[model.name]?.includes(modelField.name)) continue;
+      if (modelField.kind === 'object' && HIDDEN_MODELS.includes(modelField.type)) continue;
+
+      const serialized = SERIALIZED_FIELDS[model.name]?.[modelField.name];
+      let schema: JsonSchema = serialized
+        ? toJsonSchema(serialized)
+        : modelField.kind === 'scalar'
+          ? { ...SCALAR_TYPES[modelField.type] }
+          : { $ref: `#/components/schemas/${modelField.type}` };
+
+      if (!serialized && modelField.isList) {
+        schema = { type: 'array', items: schema };
+      } else if (!serialized && !modelField.isRequired) {
+        schema = withNullable(schema, true);
+      }
+
+      properties[modelField.name] = schema;
+      if (modelField.kind !== 'object' && modelField.isRequired) {
+        required.push(modelField.name);
+      }
+    }
+
+    schemas[model.name] = { type: 'object', properties, required };
+  }
+
+  return schemas;
+};
+
+// Response objects that aren't models
+const RESPONSE_SCHEMAS: Record<string, JsonSchema> = {
+  PotentialMatch: {
+    allOf: [
+      { $ref: '#/components/schemas/User' },
+      toObjectSchema({
+        matchScore: field.number({ description: '0-100' }),
+        scoreBreakdown: { ...SERIALIZED_FIELDS.Match.scoreBreakdown, nullable: false }
+      })
+    ],
+    description: 'A suggested user of the opposite role, with their profile and match score'
+  }
+};
+
+const ERROR_SCHEMAS: Record<string, JsonSchema> = {
+  Error: toObjectSchema({ message: field.string() }),
+  ValidationError: toObjectSchema({
+    message: field.string({ description: 'The first field error' }),
+    errors: field.array(field.object({
+      location: field.enum(['body', 'params', 'query']),
+      field: field.string({ description: 'Path of the field, e.g. "weights.age" or "childrenAges[1]"' }),
+      message: field.string()
+    }))
+  })
+};
+
+// A shape's values are schemas, so a string "type" marks a single schema
+const toResponseSchema = (response: SchemaShape | FieldSchema) =>
+  typeof response.type === 'string' ? toJsonSchema(response as FieldSchema) : toObjectSchema(response as SchemaShape);
+
+type Layer = {
+  route?: { path: string; methods: Record<string, boolean>; stack: { handle: any }[] };
+  handle: any;
+};
+
+// Walk a router's stack. Role middleware applied with router.use covers the routes
+// after it; nested routers are mounted without a path (router.use(otherRouter)).
+const collectOperations = (router: { stack: Layer[] }, prefix: string, tag: string, requiresAuth: boolean): Operation[] => {
+  const operations: Operation[] = [];
+  let roles: string[] | undefined;
+
+  for (const layer of router.stack) {
+    if (layer.route) {
+      const handlers = layer.route.stack.map(routeLayer => routeLayer.handle);
+      const path = prefix + (layer.route.path === '/' ? '' : layer.route.path);
+
+      for (const method of Object.keys(layer.route.methods)) {
+        operations.push({
+          method,
+          path,
+          tag,
+          spec: handlers.find(handler => handler.spec)?.spec,
+          requiresAuth: requiresAuth || handlers.includes(authMiddleware),
+          roles: handlers.find(handler => handler.roles)?.roles || roles
+        });
+      }
+    } else if (layer.handle === authMiddleware) {
+      requiresAuth = true;
+    } else if (layer.handle.roles) {
+      roles = layer.handle.roles;
+    } else if (layer.handle.stack) {
+      operations.push(...collectOperations(layer.handle, prefix, tag, requiresAuth));
+    }
+  }
+
+  return operations;
+};
+
+const listOperations = (mounts: ApiMount[]) =>
+  mounts.flatMap(mount => collectOperations(mount.router as any, mount.prefix, mount.tag, !!mount.requiresAuth));
+
+// "/api/bookings/:bookingId/status" -> "/api/bookings/{bookingId}/status"
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+// "put", "/api/bookings/:bookingId/status" -> "putBookingsByBookingIdStatus"
+const toOperationId = (method: string, path: string) => method + path
+  .split('/')
+  .filter(segment => segment && segment !== 'api')
+  .map(segment => segment.startsWith(':') ? `By${segment.slice(1)}` : segment)
+  .map(segment => segment.split(/[-_]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(''))
+  .join('');
+
+const errorResponse = (status: number) => ({
+  description: ERROR_DESCRIPTIONS[status] || 'Error',
+  content: {
+    'application/json': {
+      schema: { $ref: `#/components/schemas/${status === 400 ? 'ValidationError' : 'Error'}` }
+    }
+  }
+});
+
+const buildOperation = ({ method, path, spec, requiresAuth, roles, tag }: Operation & { spec: RouteSpec }) => {
+  const pathParams = [...path.matchAll(/:(\w+)/g)].map(match => match[1]);
+
+  const parameters = [
+    ...pathParams.map(name => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: toJsonSchema(spec.params?.[name] || field.string())
+    })),
+    ...Object.entries(spec.query || {}).map(([name, schema]) => ({
+      name,
+      in: 'query',
+      required: !schema.optional,
+      ...(schema.type === 'array' && { style: 'form', explode: false }),
+      schema: toJsonSchema(schema),
+      ...(schema.description && { description: schema.description })
+    }))
+  ];
+
+  let requestBody: JsonSchema | undefined;
+  if (spec.files?.length) {
+    const bodySchema = toObjectSchema(spec.body || {});
+    requestBody = {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            ...bodySchema,
+            properties: {
+              ...(bodySchema.properties as JsonSchema),
+              ...Object.fromEntries(spec.files.map(name => [name, { type: 'string', contentMediaType: 'application/octet-stream' }]))
+            },
+            required: [...((bodySchema.required as string[]) || []), ...spec.files]
+          }
+        }
+      }
+    };
+  } else if (spec.body) {
+    requestBody = {
+      required: Object.values(spec.body).some(schema => !schema.optional),
+      content: { 'application/json': { schema: toObjectSchema(spec.body) } }
+    };
+  }
+
+  const errorStatuses = new Set(spec.errors || []);
+  if (spec.body || spec.query || spec.params) errorStatuses.add(400);
+  if (requiresAuth) errorStatuses.add(401);
+  if (roles) errorStatuses.add(403);
+  errorStatuses.add(500);
+
+  return {
+    operationId: toOperationId(method, path),
+    summary: spec.summary,
+    ...((spec.description || roles) && {
+      description: [spec.description, roles && `Requires role: ${roles.join(' or ')}.`].filter(Boolean).join('\n\n')
+    }),
+    tags: [tag],
+    ...(requiresAuth ? { security: [{ bearerAuth: [] }] } : { security: [] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses: {
+      [spec.status || 200]: {
+        description: 'Success',
+        ...(spec.response && { content: { 'application/json': { schema: toResponseSchema(spec.response) } } })
+      },
+      ...Object.fromEntries([...errorStatuses].sort().map(status => [status, errorResponse(status)]))
+    }
+  };
+};
+
+// Routes mounted without a spec; `npm run check:openapi` fails while there are any
+export const findUndocumentedRoutes = (mounts: ApiMount[]) =>
+  listOperations(mounts)
+    .filter(operation => !operation.spec)
+    .map(operation => `${operation.method.toUpperCase()} ${operation.path}`);
+
+export const buildOpenApiDocument = (mounts: ApiMount[], info: { title: string; version: string; serverUrl?: string }) => {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of listOperations(mounts)) {
+    if (!operation.spec) continue;
+    const path = toOpenApiPath(operation.path);
+    paths[path] = paths[path] || {};
+    paths[path][operation.method] = buildOperation({ ...operation, spec: operation.spec });
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: info.title,
+      version: info.version,
+      description: 'Errors are JSON objects with a message. Invalid input (400) also lists every field error.'
+    },
+    ...(info.serverUrl && { servers: [{ url: info.serverUrl }] }),
+    tags: [...new Set(mounts.map(mount => mount.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Access token from /api/auth/login or /api/auth/refresh' }
+      },
+      schemas: { ...ERROR_SCHEMAS, ...RESPONSE_SCHEMAS, ...buildModelSchemas() }
+    }
+  };
+};
+
+const escapeHtml = (value: unknown) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const METHOD_COLORS: Record<string, string> = {
+  get: '#2f7d32',
+  post: '#1565c0',
+  put: '#ef6c00',
+  patch: '#6a1b9a',
+  delete: '#c62828'
+};
+
+// Self-contained docs page: rendered on the server without scripts, so it works
+// offline and under the default Content-Security-Policy
+export const renderDocsPage = (document: ReturnType<typeof buildOpenApiDocument>) => {
+  const operationsByTag = new Map<string, string[]>();
+
+  for (const [path, methods] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(methods) as [string, any][]) {
+      const schemas = [
+        operation.parameters && `<h4>Parameters</h4><pre>${escapeHtml(JSON.stringify(operation.parameters, null, 2))}</pre>`,
+        operation.requestBody && `<h4>Request body</h4><pre>${escapeHtml(JSON.stringify(operation.requestBody.content, null, 2))}</pre>`,
+        `<h4>Responses</h4><pre>${escapeHtml(JSON.stringify(operation.responses, null, 2))}</pre>`
+      ].filter(Boolean).join('');
+
+      const html = `<details id="${escapeHtml(operation.operationId)}">
+  <summary><span class="method" style="background:${METHOD_COLORS[method] || '#555'}">${method.toUpperCase()}</span>
+  <code>${escapeHtml(path)}</code> ${escapeHtml(operation.summary)}${operation.security.length ? ' <span class="lock" title="Requires a bearer token">🔒</span>' : ''}</summary>
+  ${operation.description ? `<p>${escapeHtml(operation.description)}</p>` : ''}
+  ${schemas}
+</details>`;
+
+      const tag = operation.tags[0];
+      operationsByTag.set(tag, [...(operationsByTag.get(tag) || []), html]);
+    }
+  }
+
+  const sections = [...operationsByTag].map(([tag, operations]) => `<section><h2>${escapeHtml(tag)}</h2>${operations.join('\n')}</section>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.info.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+  details { border: 1px solid #ddd; border-radius: 4px; margin: 0.4rem 0; padding: 0.4rem 0.6rem; }
+  summary { cursor: pointer; }
+  .method { display: inline-block; min-width: 4.5rem; text-align: center; color: #fff; border-radius: 3px; font-size: 0.8rem; font-weight: 600; padding: 0.1rem 0; }
+  pre { background: #f6f8fa; padding: 0.6rem; overflow-x: auto; font-size: 0.8rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(document.info.title)} <small>${escapeHtml(document.info.version)}</small></h1>
+<p>${escapeHtml(document.info.description)} Machine-readable spec: <a href="/api/openapi.json">/api/openapi.json</a>.</p>
+${sections.join('\n')}
+</body>
+</html>`;
+};
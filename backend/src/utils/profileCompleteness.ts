@@ -0,0 +1,150 @@
+import { AuPairProfile, DocumentStatus, DocumentType, HostFamilyProfile, PrismaClient } from '@prisma/client';
+import { parseStoredList } from './profileFields';
+
+// How complete a profile is, as a percentage and an onboarding checklist. Each item
+// has a weight and a role's weights add up to 100. Document items only count once an
+// admin has verified the document. The percentage is stored on the profile as
+// `completeness` so matching can filter and rank on it.
+
+export type ChecklistStatus = 'complete' | 'missing' | 'pending' | 'rejected';
+
+export interface ChecklistItem {
+  key: string;
+  label: string;
+  weight: number;
+  status: ChecklistStatus;
+}
+
+export interface ProfileCompleteness {
+  percentage: number;
+  hasProfile: boolean;
+  items: ChecklistItem[];
+  missing: ChecklistItem[]; // Items still to do, heaviest first
+}
+
+type ProfileRole = 'AU_PAIR' | 'HOST_FAMILY';
+type DocumentSummary = { type: DocumentType; status: DocumentStatus };
+
+interface ChecklistDefinition<P> {
+  key: string;
+  label: string;
+  weight: number;
+  isComplete?: (profile: P) => boolean;
+  documentTypes?: DocumentType[]; // Also complete with a verified document of one of these types
+}
+
+const hasText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+const hasItems = (value: unknown) => parseStoredList(value).length > 0;
+
+const IDENTITY_DOCUMENTS: DocumentType[] = ['ID', 'PASSPORT'];
+
+const AU_PAIR_CHECKLIST: ChecklistDefinition<Partial<AuPairProfile>>[] = [
+  { key: 'profilePhoto', label: 'Add a profile photo', weight: 15, isComplete: p => hasText(p.profilePhotoUrl), documentTypes: ['PROFILE_PHOTO'] },
+  { key: 'identity', label: 'Upload an ID or passport for verification', weight: 15, documentTypes: IDENTITY_DOCUMENTS },
+  { key: 'bio', label: 'Write a short introduction', weight: 10, isComplete: p => hasText(p.bio) },
+  { key: 'languages', label: 'List the languages you speak', weight: 10, isComplete: p => hasItems(p.languages) },
+  { key: 'experience', label: 'Describe your childcare experience', weight: 10, isComplete: p => hasText(p.experience) },
+  { key: 'video', label: 'Add an introduction video', weight: 10, isComplete: p => hasText(p.videoUrl) },
+  { key: 'availability', label: 'Set the dates you are available', weight: 10, isComplete: p => p.availableFrom != null && p.availableTo != null },
+  { key: 'skills', label: 'List your skills', weight: 5, isComplete: p => hasItems(p.skills) },
+  { key: 'education', label: 'Add your education', weight: 5, isComplete: p => hasText(p.education) },
+  { key: 'hourlyRate', label: 'Set your hourly rate', weight: 5, isComplete: p => p.hourlyRate != null },
+  {
+    key: 'locationPreferences',
+    label: 'Choose where you would like to live',
+    weight: 5,
+    isComplete: p => hasItems(p.preferredCountries) || hasItems(p.preferredRegions) || hasText(p.preferredLocation)
+  }
+];
+
+const HOST_FAMILY_CHECKLIST: ChecklistDefinition<Partial<HostFamilyProfile>>[] = [
+  { key: 'identity', label: 'Upload an ID or passport for verification', weight: 25, documentTypes: IDENTITY_DOCUMENTS },
+  { key: 'profilePhoto', label: 'Add a family photo', weight: 15, isComplete: p => hasText(p.profilePhotoUrl), documentTypes: ['PROFILE_PHOTO'] },
+  { key: 'bio', label: 'Introduce your family', weight: 15, isComplete: p => hasText(p.bio) },
+  { key: 'childrenAges', label: 'Add the age of each child', weight: 10, isComplete: p => hasItems(p.childrenAges) },
+  { key: 'preferredLanguages', label: 'List the languages your au pair should speak', weight: 10, isComplete: p => hasItems(p.preferredLanguages) },
+  { key: 'requirements', label: 'Describe what you are looking for', weight: 10, isComplete: p => hasText(p.requirements) },
+  { key: 'budget', label: 'Set your budget', weight: 10, isComplete: p => p.maxBudget != null },
+  { key: 'mappedLocation', label: 'Enter a location we can place on the map', weight: 5, isComplete: p => p.latitude != null && p.longitude != null }
+];
+
+// The best status among the user's documents of the given types
+const documentStatus = (documents: DocumentSummary[], types: DocumentType[]): ChecklistStatus => {
+  const statuses = documents.filter(document => types.includes(document.type)).map(document => document.status);
+
+  if (statuses.includes('VERIFIED')) return 'complete';
+  if (statuses.includes('PENDING')) return 'pending';
+  if (statuses.includes('REJECTED')) return 'rejected';
+  return 'missing';
+};
+
+const evaluateChecklist = <P>(checklist: ChecklistDefinition<P>[], profile: P | null, documents: DocumentSummary[]) =>
+  checklist.map(({ key, label, weight, isComplete, documentTypes }): ChecklistItem => {
+    let status: ChecklistStatus = 'missing';
+
+    if (profile && isComplete?.(profile)) {
+      status = 'complete';
+    } else if (documentTypes) {
+      status = documentStatus(documents, documentTypes);
+    }
+
+    return { key, label, weight, status };
+  });
+
+// Works on stored profiles as well as the data about to be written (list fields as JSON strings)
+export const calculateProfileCompleteness = (
+  role: ProfileRole,
+  profile: Partial<AuPairProfile> | Partial<HostFamilyProfile> | null,
+  documents: DocumentSummary[]
+): ProfileCompleteness => {
+  const items = role === 'AU_PAIR'
+    ? evaluateChecklist(AU_PAIR_CHECKLIST, profile as Partial<AuPairProfile> | null, documents)
+    : evaluateChecklist(HOST_FAMILY_CHECKLIST, profile as Partial<HostFamilyProfile> | null, documents);
+
+  const percentage = items.reduce((sum, item) => sum + (item.status === 'complete' ? item.weight : 0), 0);
+  const missing = items.filter(item => item.status !== 'complete').sort((a, b) => b.weight - a.weight);
+
+  return { percentage, hasProfile: profile !== null, items, missing };
+};
+
+// Pass `profile` to score data that hasn't been saved yet; otherwise the stored profile is used
+export const getProfileCompleteness = async (
+  client: PrismaClient,
+  userId: string,
+  role: ProfileRole,
+  profile?: Partial<AuPairProfile> | Partial<HostFamilyProfile>
+): Promise<ProfileCompleteness> => {
+  const [documents, storedProfile] = await Promise.all([
+    client.document.findMany({ where: { userId }, select: { type: true, status: true } }),
+    profile
+      ? null
+      : role === 'AU_PAIR'
+        ? client.auPairProfile.findUnique({ where: { userId } })
+        : client.hostFamilyProfile.findUnique({ where: { userId } })
+  ]);
+
+  return calculateProfileCompleteness(role, profile ?? storedProfile, documents);
+};
+
+// Store the current percentage on the user's profile after their documents changed.
+// Users without a profile (and admins) have nothing to update.
+export const refreshProfileCompleteness = async (client: PrismaClient, userId: string): Promise<number | null> => {
+  const user = await client.user.findUnique({
+    where: { id: userId },
+    select: { role: true, auPairProfile: true, hostFamilyProfile: true }
+  });
+
+  const profile = user?.role === 'AU_PAIR' ? user.auPairProfile : user?.role === 'HOST_FAMILY' ? user.hostFamilyProfile : null;
+  if (!user || !profile) return null;
+
+  const { percentage } = await getProfileCompleteness(client, userId, user.role as ProfileRole, profile);
+  if (percentage === profile.completeness) return percentage;
+
+  if (user.role === 'AU_PAIR') {
+    await client.auPairProfile.update({ where: { userId }, data: { completeness: percentage } });
+  } else {
+    await client.hostFamilyProfile.update({ where: { userId }, data: { completeness: percentage } });
+  }
+
+  return percentage;
+};
@@ -0,0 +1,197 @@
+import { AuPairProfile, HostFamilyProfile } from '@prisma/client';
+import languages from '../data/languages.json';
+import { resolveCountryCode, resolveRegion } from './geo';
+
+// Profile list fields are JSON string arrays in the database (SQLite has no array
+// columns). This module is the one place that reads and writes them. Languages
+// are stored as ISO 639-1 codes ("de") and countries as ISO 3166-1 alpha-2 codes ("DE").
+
+export type ListKind = 'language' | 'country' | 'region' | 'text' | 'age';
+
+// Regions are resolved within the countries (ISO codes) listed next to them
+export interface ListContext {
+  countries?: string[];
+}
+
+export const AU_PAIR_LIST_FIELDS = {
+  languages: 'language',
+  skills: 'text',
+  preferredCountries: 'country',
+  preferredRegions: 'region'
+} as const;
+
+export const HOST_FAMILY_LIST_FIELDS = {
+  childrenAges: 'age',
+  preferredLanguages: 'language'
+} as const;
+
+export const MAX_CHILD_AGE = 17; // Au pairs look after minors
+const MAX_TEXT_ITEM_LENGTH = 100;
+
+// Lowercase, strip accents and punctuation but keep non-Latin letters: "Español" -> "espanol", "中文" -> "中文"
+const normalizeKey = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const languageCodesByName = new Map<string, string>();
+for (const [code, language] of Object.entries(languages)) {
+  for (const name of [code, language.name, language.nativeName, ...language.aliases]) {
+    languageCodesByName.set(normalizeKey(name), code);
+  }
+}
+
+// ISO 639-1 code for a language name, code or native name ("German", "Deutsch", "DE", "de-AT")
+export const normalizeLanguage = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const key = normalizeKey(value);
+  return languageCodesByName.get(key) || languageCodesByName.get(key.split(' ')[0]) || null;
+};
+
+// English name for a language code, or the value itself if it isn't one
+export const getLanguageName = (code: string): string =>
+  (languages as Record<string, { name: string }>)[code]?.name || code;
+
+// Every ISO 639-1 language, for pickers
+export const listLanguages = (): { code: string; name: string; nativeName: string }[] =>
+  Object.entries(languages)
+    .map(([code, language]) => ({ code, name: language.name, nativeName: language.nativeName }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const normalizeText = (value: unknown): string | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value).trim();
+  return text && text.length <= MAX_TEXT_ITEM_LENGTH ? text : null;
+};
+
+const normalizeAge = (value: unknown): number | null => {
+  const age = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isInteger(age) && age >= 0 && age <= MAX_CHILD_AGE ? age : null;
+};
+
+const normalizers: Record<ListKind, (value: unknown, context: ListContext) => string | number | null> = {
+  language: normalizeLanguage,
+  country: value => typeof value === 'string' ? resolveCountryCode(value) : null,
+  // Regions outside the gazetteer are kept as typed; they just never match a family
+  region: (value, context) => typeof value === 'string' ? resolveRegion(value, context.countries) || normalizeText(value) : null,
+  text: normalizeText,
+  age: normalizeAge
+};
+
+const invalidItemMessage = (kind: ListKind, field: string, item: unknown) => kind === 'age'
+  ? `Invalid age in ${field}: ${String(item)}. Ages must be whole numbers from 0 to ${MAX_CHILD_AGE}`
+  : `Unknown ${kind === 'text' ? 'entry' : kind} in ${field}: ${String(item)}`;
+
+// Entries are deduplicated case-insensitively, keeping the first spelling.
+// Ages are not: two children can be the same age.
+const dedupe = <T extends string | number>(values: T[], kind: ListKind) => {
+  if (kind === 'age') return values;
+
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = typeof value === 'string' ? value.toLowerCase() : String(value);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Whatever is stored: a JSON array string, an array, or legacy comma-separated text
+export const parseStoredList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string' || !value.trim()) return [];
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch (error) {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+};
+
+// Read a stored list, normalizing what can be normalized. Values that can't be
+// (rows written before normalization) are kept as trimmed text rather than dropped.
+export function readList(value: unknown, kind: 'age'): number[];
+export function readList(value: unknown, kind: Exclude<ListKind, 'age'>, context?: ListContext): string[];
+export function readList(value: unknown, kind: ListKind, context?: ListContext): (string | number)[];
+export function readList(value: unknown, kind: ListKind, context: ListContext = {}): (string | number)[] {
+  const items = parseStoredList(value)
+    .map(item => normalizers[kind](item, context) ?? (kind === 'age' ? null : normalizeText(item)))
+    .filter((item): item is string | number => item !== null);
+  return dedupe(items, kind);
+}
+
+// The countries listed in the country fields of a profile or request body
+export const listContext = (fields: Record<string, ListKind>, source: Record<string, unknown>): ListContext => ({
+  countries: Object.entries(fields)
+    .filter(([, kind]) => kind === 'country')
+    .flatMap(([field]) => readList(source[field], 'country'))
+});
+
+// Validate and normalize a list from a request body into its stored JSON form.
+// Missing values are stored as empty lists.
+export const serializeList = (
+  value: unknown,
+  kind: ListKind,
+  field: string,
+  context: ListContext = {}
+): { value?: string; error?: string } => {
+  if (value === undefined || value === null) return { value: '[]' };
+
+  if (!Array.isArray(value)) {
+    return { error: `${field} must be a list` };
+  }
+
+  const items: (string | number)[] = [];
+  for (const item of value) {
+    const normalized = normalizers[kind](item, context);
+    if (normalized === null) {
+      return { error: invalidItemMessage(kind, field, item) };
+    }
+    items.push(normalized);
+  }
+
+  return { value: JSON.stringify(dedupe(items, kind)) };
+};
+
+// Serialize every list field of a profile kind from a request body
+export const serializeListFields = <F extends Record<string, ListKind>>(
+  fields: F,
+  body: Record<string, unknown>
+): { data?: Record<keyof F, string>; error?: string } => {
+  const data = {} as Record<keyof F, string>;
+  const context = listContext(fields, body);
+
+  for (const [field, kind] of Object.entries(fields) as [keyof F & string, ListKind][]) {
+    const { value, error } = serializeList(body[field], kind, field, context);
+    if (error) return { error };
+    data[field] = value!;
+  }
+
+  return { data };
+};
+
+// Profiles as returned to clients: list fields as real arrays
+export const serializeAuPairProfile = <T extends AuPairProfile>(profile: T) => ({
+  ...profile,
+  languages: readList(profile.languages, 'language'),
+  skills: readList(profile.skills, 'text'),
+  preferredCountries: readList(profile.preferredCountries, 'country'),
+  preferredRegions: readList(profile.preferredRegions, 'region', listContext(AU_PAIR_LIST_FIELDS, profile))
+});
+
+export const serializeHostFamilyProfile = <T extends HostFamilyProfile>(profile: T) => ({
+  ...profile,
+  childrenAges: readList(profile.childrenAges, 'age'),
+  preferredLanguages: readList(profile.preferredLanguages, 'language')
+});
+
+// Serialize whichever full profiles a user object carries
+export const serializeUserProfiles = <T extends { auPairProfile?: AuPairProfile | null; hostFamilyProfile?: HostFamilyProfile | null }>(user: T) => ({
+  ...user,
+  ...(user.auPairProfile && { auPairProfile: serializeAuPairProfile(user.auPairProfile) }),
+  ...(user.hostFamilyProfile && { hostFamilyProfile: serializeHostFamilyProfile(user.hostFamilyProfile) })
+});
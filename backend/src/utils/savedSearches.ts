@@ -0,0 +1,90 @@
+import { SavedSearch, Prisma, UserRole } from '@prisma/client';
+import { prisma } from '../db';
+import { frontendUrl } from './email';
+import { MatchCriteria, parseMatchCriteria, buildCandidateFilter } from './matchCriteria';
+import { buildExclusionFilter } from './matchExclusions';
+import { notifyUser } from './notifications';
+import { scheduleJob } from './jobRunner';
+
+export const MAX_SAVED_SEARCHES = 20;
+
+// Saved searches store `criteria` as a JSON string; clients get it parsed
+export const serializeSavedSearch = (search: SavedSearch) => ({
+  ...search,
+  criteria: JSON.parse(search.criteria) as MatchCriteria
+});
+
+export const getSavedSearchCriteria = (search: SavedSearch): MatchCriteria => {
+  return parseMatchCriteria(JSON.parse(search.criteria)).criteria || {};
+};
+
+// Count candidates whose profile was created in (since, until] and matches the search
+const countNewResults = async (search: SavedSearch & { user: { role: UserRole } }, until: Date) => {
+  const createdInWindow = { createdAt: { gt: search.lastCheckedAt, lte: until } };
+  const newProfile: Prisma.UserWhereInput = search.user.role === 'HOST_FAMILY'
+    ? { auPairProfile: { is: createdInWindow } }
+    : { hostFamilyProfile: { is: createdInWindow } };
+
+  return prisma.user.count({
+    where: {
+      AND: [
+        buildCandidateFilter(search.user.role, getSavedSearchCriteria(search)),
+        buildExclusionFilter(search.userId, search.user.role === 'HOST_FAMILY'),
+        newProfile
+      ],
+      isActive: true,
+      id: { not: search.userId }
+    }
+  });
+};
+
+// Notify owners of saved searches about profiles added since the last check.
+// Returns the number of notifications sent.
+export const checkSavedSearches = async (now: Date = new Date()): Promise<number> => {
+  const searches = await prisma.savedSearch.findMany({
+    where: {
+      notifyOnNew: true,
+      user: { isActive: true, role: { in: ['AU_PAIR', 'HOST_FAMILY'] } }
+    },
+    include: { user: { select: { role: true } } }
+  });
+
+  let notified = 0;
+
+  for (const search of searches) {
+    try {
+      const count = await countNewResults(search, now);
+
+      await prisma.savedSearch.update({
+        where: { id: search.id },
+        data: { lastCheckedAt: now }
+      });
+
+      if (count === 0) continue;
+
+      await notifyUser(search.userId, 'SAVED_SEARCH_RESULTS', {
+        title: 'New matches for your saved search',
+        body: `${count} new ${count === 1 ? 'profile matches' : 'profiles match'} "${search.name}"`,
+        data: { savedSearchId: search.id, count },
+        email: {
+          template: 'savedSearchResults',
+          data: { searchName: search.name, count, url: frontendUrl(`/matches?savedSearch=${search.id}`) }
+        }
+      });
+      notified++;
+    } catch (error) {
+      console.error(`Failed to check saved search ${search.id}:`, error);
+    }
+  }
+
+  return notified;
+};
+
+// Check saved searches until the returned stop function is called
+export const startSavedSearchScheduler = (intervalMs: number = parseInt(process.env.SAVED_SEARCH_INTERVAL_MS as string) || 60 * 60 * 1000) => {
+  const stop = scheduleJob('Saved search scheduler', intervalMs, () => checkSavedSearches());
+
+  console.log(`🔎 Saved search scheduler started (checking every ${intervalMs}ms)`);
+
+  return stop;
+};
@@ -0,0 +1,158 @@
+import { MatchingConfig } from '@prisma/client';
+
+// Scoring config types, defaults and validation. Kept free of database access
+// so the scoring code can run outside the server (see src/scripts/evaluate-matching.ts).
+
+export type MatchFactor = 'language' | 'country' | 'age' | 'availability' | 'budget' | 'distance';
+
+export const MATCH_FACTORS: MatchFactor[] = ['language', 'country', 'age', 'availability', 'budget', 'distance'];
+
+// Share of the total score each factor contributes; must sum to 1
+export type MatchingWeights = Record<MatchFactor, number>;
+
+export interface AgeBand {
+  minAge: number;
+  maxAge: number;
+}
+
+export interface MatchingThresholds {
+  // Au pair age ranges that score 100 for families with young children / teens, and 70 otherwise
+  ageBands: {
+    youngChildMaxAge: number; // Children up to this age count as young, older ones as teens
+    youngChildren: AgeBand;
+    teens: AgeBand;
+    acceptable: AgeBand;
+  };
+  // Scores for au pairs whose rate is up to `maxRatio` times the family's budget
+  budgetTolerance: { maxRatio: number; score: number }[];
+  // Scores for availability starting within `maxDays` of the preferred start
+  availabilityWindows: { maxDays: number; score: number }[];
+  // Scores for families living up to `maxRatio` times the au pair's max distance away
+  distanceWindows: { maxRatio: number; score: number }[];
+  defaultMaxDistanceKm: number; // Used when the au pair gave a location but no max distance
+}
+
+export interface ScoringConfig {
+  version: number; // 0 is the built-in default, used until an admin activates a config
+  weights: MatchingWeights;
+  thresholds: MatchingThresholds;
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  version: 0,
+  weights: {
+    language: 0.25,
+    country: 0.2,
+    age: 0.2,
+    availability: 0.15,
+    budget: 0.1,
+    distance: 0.1
+  },
+  thresholds: {
+    ageBands: {
+      youngChildMaxAge: 10,
+      youngChildren: { minAge: 18, maxAge: 30 },
+      teens: { minAge: 20, maxAge: 35 },
+      acceptable: { minAge: 18, maxAge: 35 }
+    },
+    budgetTolerance: [
+      { maxRatio: 1.2, score: 70 },
+      { maxRatio: 1.5, score: 40 }
+    ],
+    availabilityWindows: [
+      { maxDays: 30, score: 80 },
+      { maxDays: 90, score: 60 },
+      { maxDays: 180, score: 30 }
+    ],
+    distanceWindows: [
+      { maxRatio: 1, score: 100 },
+      { maxRatio: 2, score: 60 },
+      { maxRatio: 4, score: 30 }
+    ],
+    defaultMaxDistanceKm: 50
+  }
+};
+
+// Versions saved before a factor existed give it no weight and default thresholds
+export const toScoringConfig = (config: MatchingConfig): ScoringConfig => ({
+  version: config.version,
+  weights: { distance: 0, ...JSON.parse(config.weights) },
+  thresholds: { ...DEFAULT_SCORING_CONFIG.thresholds, ...JSON.parse(config.thresholds) }
+});
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isScore = (value: unknown) => isNumber(value) && value >= 0 && value <= 100;
+
+const isAgeBand = (band: any): band is AgeBand =>
+  !!band && isNumber(band.minAge) && isNumber(band.maxAge) && band.minAge <= band.maxAge;
+
+// Returns a human-readable error, or null if the weights are usable
+export const validateWeights = (weights: any): string | null => {
+  if (!weights || typeof weights !== 'object') {
+    return `Weights must be an object with ${MATCH_FACTORS.join(', ')}`;
+  }
+
+  for (const factor of MATCH_FACTORS) {
+    if (!isNumber(weights[factor]) || weights[factor] < 0) {
+      return `Weight for ${factor} must be a non-negative number`;
+    }
+  }
+
+  const unknown = Object.keys(weights).filter(key => !MATCH_FACTORS.includes(key as MatchFactor));
+  if (unknown.length > 0) {
+    return `Unknown weight factors: ${unknown.join(', ')}`;
+  }
+
+  const total = MATCH_FACTORS.reduce((sum, factor) => sum + weights[factor], 0);
+  if (Math.abs(total - 1) > 0.001) {
+    return `Weights must sum to 1 (got ${Math.round(total * 1000) / 1000})`;
+  }
+
+  return null;
+};
+
+// Returns a human-readable error, or null if the thresholds are usable
+export const validateThresholds = (thresholds: any): string | null => {
+  if (!thresholds || typeof thresholds !== 'object') {
+    return 'Thresholds must be an object';
+  }
+
+  const { ageBands, budgetTolerance, availabilityWindows, distanceWindows, defaultMaxDistanceKm } = thresholds;
+
+  if (!ageBands || !isNumber(ageBands.youngChildMaxAge) ||
+      !isAgeBand(ageBands.youngChildren) || !isAgeBand(ageBands.teens) || !isAgeBand(ageBands.acceptable)) {
+    return 'ageBands needs youngChildMaxAge and youngChildren, teens and acceptable bands with minAge <= maxAge';
+  }
+
+  if (!Array.isArray(budgetTolerance) ||
+      !budgetTolerance.every(step => isNumber(step?.maxRatio) && step.maxRatio >= 1 && isScore(step.score))) {
+    return 'budgetTolerance must be a list of { maxRatio >= 1, score 0-100 }';
+  }
+
+  if (!Array.isArray(availabilityWindows) ||
+      !availabilityWindows.every(step => isNumber(step?.maxDays) && step.maxDays >= 0 && isScore(step.score))) {
+    return 'availabilityWindows must be a list of { maxDays >= 0, score 0-100 }';
+  }
+
+  if (!Array.isArray(distanceWindows) ||
+      !distanceWindows.every(step => isNumber(step?.maxRatio) && step.maxRatio > 0 && isScore(step.score))) {
+    return 'distanceWindows must be a list of { maxRatio > 0, score 0-100 }';
+  }
+
+  if (!isNumber(defaultMaxDistanceKm) || defaultMaxDistanceKm <= 0) {
+    return 'defaultMaxDistanceKm must be a positive number';
+  }
+
+  return null;
+};
+
+// Steps are checked in ascending order regardless of how they were entered
+export const normalizeThresholds = (thresholds: MatchingThresholds): MatchingThresholds => ({
+  ageBands: thresholds.ageBands,
+  budgetTolerance: [...thresholds.budgetTolerance].sort((a, b) => a.maxRatio - b.maxRatio),
+  availabilityWindows: [...thresholds.availabilityWindows].sort((a, b) => a.maxDays - b.maxDays),
+  distanceWindows: [...thresholds.distanceWindows].sort((a, b) => a.maxRatio - b.maxRatio),
+  defaultMaxDistanceKm: thresholds.defaultMaxDistanceKm
+});
@@ -0,0 +1,138 @@
+import { Request } from 'express';
+import crypto from 'crypto';
+import { prisma } from '../db';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  verifyRefreshToken,
+  REFRESH_TOKEN_TTL_MS
+} from './jwt';
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Refresh tokens are never stored in plain text
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const getClientInfo = (req: Request) => ({
+  userAgent: req.get('user-agent') || null,
+  ipAddress: req.ip || null
+});
+
+// Start a new session (one per logged-in device) and issue its first token pair
+export const createSession = async (userId: string, req: Request): Promise<SessionTokens> => {
+  const sessionId = crypto.randomUUID();
+  const accessToken = generateAccessToken(userId, sessionId);
+  const refreshToken = generateRefreshToken(userId, sessionId);
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      ...getClientInfo(req),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    }
+  });
+
+  return { sessionId, accessToken, refreshToken };
+};
+
+// Exchange a refresh token for a new token pair. The presented token must be the
+// session's current one: replaying an already-rotated token means it leaked, so
+// the whole session (token family) is revoked. Returns null if the token is rejected.
+export const rotateSession = async (refreshToken: string, req: Request): Promise<SessionTokens | null> => {
+  let decoded: any;
+  try {
+    decoded = verifyRefreshToken(refreshToken);
+  } catch (error) {
+    return null;
+  }
+
+  if (!decoded.sid) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: decoded.sid },
+    include: { user: { select: { id: true, isActive: true } } }
+  });
+
+  if (!session || session.userId !== decoded.userId || session.revokedAt || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  if (!session.user.isActive) {
+    await revokeSession(session.id, 'USER_DEACTIVATED');
+    return null;
+  }
+
+  const presentedHash = hashToken(refreshToken);
+
+  if (presentedHash !== session.refreshTokenHash) {
+    console.warn(`Refresh token reuse detected for session ${session.id}, revoking`);
+    await revokeSession(session.id, 'REUSE_DETECTED');
+    return null;
+  }
+
+  const accessToken = generateAccessToken(session.userId, session.id);
+  const newRefreshToken = generateRefreshToken(session.userId, session.id);
+
+  // Compare-and-swap so two concurrent refreshes with the same token can't both win
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(newRefreshToken),
+      ...getClientInfo(req),
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    }
+  });
+
+  if (count === 0) {
+    console.warn(`Refresh token reuse detected for session ${session.id}, revoking`);
+    await revokeSession(session.id, 'REUSE_DETECTED');
+    return null;
+  }
+
+  return { sessionId: session.id, accessToken, refreshToken: newRefreshToken };
+};
+
+export const isSessionActive = async (sessionId: string, userId: string): Promise<boolean> => {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true }
+  });
+
+  return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+};
+
+export const revokeSession = async (sessionId: string, reason: string): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+};
+
+// Revoke every session of a user, optionally keeping the one making the request
+export const revokeAllSessions = async (
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+
+  return count;
+};
@@ -1,11 +1,19 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import multer from 'multer';
 
-// Initialize Supabase client with anonymous access for development
-const supabaseUrl = process.env.SUPABASE_URL || 'https://demo-project.supabase.co';
-const supabaseKey = process.env.SUPABASE_ANON_KEY || 'demo-key';
+let supabase: SupabaseClient | null = null;
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+// Created on first use, so importing the routes doesn't open a realtime client
+// (and .env has been loaded by then). Falls back to anonymous access for development.
+export const getSupabase = (): SupabaseClient => {
+  if (!supabase) {
+    supabase = createClient(
+      process.env.SUPABASE_URL || 'https://demo-project.supabase.co',
+      process.env.SUPABASE_ANON_KEY || 'demo-key'
+    );
+  }
+  return supabase;
+};
 
 // Multer configuration for file uploads
 export const upload = multer({
@@ -33,7 +41,7 @@ export const uploadToSupabase = async (
     const fileName = `${userId}/${Date.now()}.${fileExtension}`;
     const filePath = `${folder}/${fileName}`;
 
-    const { data, error } = await supabase.storage
+    const { data, error } = await getSupabase().storage
       .from('uploads')
       .upload(filePath, file.buffer, {
         contentType: file.mimetype,
@@ -47,7 +55,7 @@ export const uploadToSupabase = async (
     }
 
     // Get public URL
-    const { data: { publicUrl } } = supabase.storage
+    const { data: { publicUrl } } = getSupabase().storage
       .from('uploads')
       .getPublicUrl(filePath);
 
@@ -68,7 +76,7 @@ export const deleteFromSupabase = async (url: string): Promise<void> => {
     
     const filePath = urlParts[1];
 
-    const { error } = await supabase.storage
+    const { error } = await getSupabase().storage
       .from('uploads')
       .remove([filePath]);
 
@@ -0,0 +1,57 @@
+import { authenticator } from 'otplib';
+import QRCode from 'qrcode';
+import crypto from 'crypto';
+import { hashToken } from './sessions';
+
+// Accept codes from the previous and next 30s step to tolerate clock drift
+authenticator.options = { window: 1 };
+
+const RECOVERY_CODE_COUNT = 10;
+
+export const generateTwoFactorSecret = async (email: string) => {
+  const secret = authenticator.generateSecret();
+  const otpauthUrl = authenticator.keyuri(email, process.env.TWO_FACTOR_ISSUER || 'Au-pair', secret);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCodeDataUrl };
+};
+
+// Returns the time step the code belongs to, or null if it isn't valid now.
+// Callers store the step and refuse codes at or before it, so a code works once.
+export const verifyTotpCode = (secret: string, code: string): number | null => {
+  try {
+    const delta = authenticator.checkDelta(code.replace(/\s/g, ''), secret);
+    if (delta === null) return null;
+
+    const { epoch, step } = authenticator.allOptions();
+    return Math.floor(epoch / 1000 / step) + delta;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Returns the plain codes (shown to the user once) and the hashes to store
+export const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  return {
+    codes,
+    hashedCodes: JSON.stringify(codes.map(code => hashToken(code)))
+  };
+};
+
+// Checks a recovery code against the stored hashes. On success returns the
+// remaining hashes (the used code is single-use), otherwise null.
+export const consumeRecoveryCode = (storedHashes: string | null, code: string): string | null => {
+  if (!storedHashes) return null;
+
+  const hashes: string[] = JSON.parse(storedHashes);
+  const codeHash = hashToken(code.trim().toLowerCase());
+
+  if (!hashes.includes(codeHash)) return null;
+
+  return JSON.stringify(hashes.filter(hash => hash !== codeHash));
+};
@@ -0,0 +1,67 @@
+import { SchemaShape, field, messageResponse } from './validation';
+
+// Profile summary returned alongside the user on login
+export const loginProfileInclude = {
+  auPairProfile: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      profilePhotoUrl: true
+    }
+  },
+  hostFamilyProfile: {
+    select: {
+      id: true,
+      familyName: true,
+      contactPersonName: true,
+      profilePhotoUrl: true
+    }
+  }
+};
+
+// Body of a login response, shared by password, two-factor and social logins
+export const loginResponse: SchemaShape = messageResponse({
+  user: field.ref('User', { optional: true, description: 'With a summary of the profile' }),
+  accessToken: field.string({ optional: true }),
+  refreshToken: field.string({ optional: true }),
+  twoFactorRequired: field.boolean({ optional: true, description: 'Sent instead of the tokens; finish with POST /api/auth/login/2fa' }),
+  challengeToken: field.string({ optional: true })
+});
+
+// User columns never sent to clients (also left out of the API docs). GET /api/auth/me
+// still selects pendingEmail for its owner.
+export const SENSITIVE_USER_FIELDS = [
+  'password',
+  'emailVerifyToken',
+  'resetPasswordToken',
+  'resetPasswordExpires',
+  'pendingEmail',
+  'emailChangeToken',
+  'emailChangeExpires',
+  'twoFactorSecret',
+  'twoFactorRecoveryCodes'
+] as const;
+
+export const stripSensitiveFields = <T extends Record<string, any>>(user: T): Omit<T, typeof SENSITIVE_USER_FIELDS[number]> => {
+  const safeUser = { ...user };
+  for (const field of SENSITIVE_USER_FIELDS) {
+    delete safeUser[field];
+  }
+  return safeUser;
+};
+
+// Name shown to other users: the au pair's full name or the host family's contact person
+export const getDisplayName = (user: {
+  email?: string;
+  auPairProfile?: { firstName: string; lastName: string } | null;
+  hostFamilyProfile?: { familyName: string; contactPersonName: string } | null;
+}): string => {
+  if (user.auPairProfile) {
+    return `${user.auPairProfile.firstName} ${user.auPairProfile.lastName}`;
+  }
+  if (user.hostFamilyProfile) {
+    return user.hostFamilyProfile.contactPersonName || `The ${user.hostFamilyProfile.familyName} family`;
+  }
+  return user.email || 'Someone';
+};
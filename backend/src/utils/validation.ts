@@ -0,0 +1,248 @@
+// Declarative request schemas. Each route describes its body, params and query
+// with plain objects built from `field`; `validateShape` checks and coerces a
+// request against them. Schemas are plain data, so the OpenAPI document is built
+// from the same route specs (see utils/openapi.ts).
+
+interface BaseField {
+  description?: string;
+  optional?: boolean;   // Fields are required unless marked optional
+  nullable?: boolean;   // Accept an explicit null (e.g. to clear a value)
+  default?: unknown;    // Used when an optional field is missing
+}
+
+export interface StringField extends BaseField {
+  type: 'string';
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  enum?: readonly string[];
+  format?: 'email' | 'uri';
+  trim?: boolean;
+}
+
+export interface NumberField extends BaseField {
+  type: 'number' | 'integer';
+  min?: number;
+  max?: number;
+}
+
+export interface BooleanField extends BaseField {
+  type: 'boolean';
+}
+
+// ISO 8601 date or date-time string, coerced to a Date
+export interface DateField extends BaseField {
+  type: 'date';
+}
+
+export interface ArrayField extends BaseField {
+  type: 'array';
+  items: FieldSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectField extends BaseField {
+  type: 'object';
+  properties: Record<string, FieldSchema>;
+}
+
+// Free-form value that is passed through unchecked (e.g. a map validated by the handler)
+export interface AnyField extends BaseField {
+  type: 'any';
+}
+
+// A model from the Prisma schema, documented under components/schemas. Only used in responses.
+export interface RefField extends BaseField {
+  type: 'ref';
+  name: string;
+}
+
+export type FieldSchema = StringField | NumberField | BooleanField | DateField | ArrayField | ObjectField | AnyField | RefField;
+
+export type SchemaShape = Record<string, FieldSchema>;
+
+export type RequestLocation = 'body' | 'params' | 'query';
+
+export interface RequestSchema {
+  body?: SchemaShape;
+  params?: SchemaShape;
+  query?: SchemaShape;
+}
+
+// Everything the API docs know about a route. Only the request parts are enforced.
+export interface RouteSpec extends RequestSchema {
+  summary: string;
+  description?: string;
+  files?: string[];        // multipart/form-data file fields, handled by multer
+  status?: number;         // Success status, 200 by default
+  response?: SchemaShape | FieldSchema;  // Success body: the properties of an object, or any other schema
+  errors?: number[];       // Error statuses besides 400 (invalid input), 401/403 (auth) and 500
+}
+
+export interface ValidationError {
+  location: RequestLocation;
+  field: string;
+  message: string;
+}
+
+type Options<T extends FieldSchema> = Omit<T, 'type'>;
+
+export const field = {
+  string: (options: Options<StringField> = {}): StringField => ({ type: 'string', ...options }),
+  number: (options: Options<NumberField> = {}): NumberField => ({ type: 'number', ...options }),
+  integer: (options: Options<NumberField> = {}): NumberField => ({ type: 'integer', ...options }),
+  boolean: (options: Options<BooleanField> = {}): BooleanField => ({ type: 'boolean', ...options }),
+  date: (options: Options<DateField> = {}): DateField => ({ type: 'date', ...options }),
+  array: (items: FieldSchema, options: Omit<Options<ArrayField>, 'items'> = {}): ArrayField => ({ type: 'array', items, ...options }),
+  object: (properties: SchemaShape, options: Omit<Options<ObjectField>, 'properties'> = {}): ObjectField => ({ type: 'object', properties, ...options }),
+  enum: (values: readonly string[], options: Omit<Options<StringField>, 'enum'> = {}): StringField => ({ type: 'string', enum: values, ...options }),
+  any: (options: Options<AnyField> = {}): AnyField => ({ type: 'any', ...options }),
+  ref: (name: string, options: Omit<Options<RefField>, 'name'> = {}): RefField => ({ type: 'ref', name, ...options })
+};
+
+// Responses of mutations carry a human-readable message next to the data
+export const messageResponse = (shape: SchemaShape = {}): SchemaShape => ({
+  message: field.string(),
+  ...shape
+});
+
+export const paginationResponse = field.object({
+  page: field.integer(),
+  limit: field.integer(),
+  total: field.integer(),
+  pages: field.integer()
+});
+
+// Pagination query shared by list endpoints
+export const paginationQuery = (defaultLimit = 20, maxLimit = 100): SchemaShape => ({
+  page: field.integer({ optional: true, min: 1, default: 1 }),
+  limit: field.integer({ optional: true, min: 1, max: maxLimit, default: defaultLimit })
+});
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Result = { value?: unknown; errors: { path: string; message: string }[] };
+
+const fail = (path: string, message: string): Result => ({ errors: [{ path, message: `${path} ${message}` }] });
+
+const isMissing = (value: unknown, schema: FieldSchema) =>
+  value === undefined || value === null || (value === '' && schema.type !== 'string' && schema.type !== 'any');
+
+const checkString = (value: unknown, schema: StringField, path: string): Result => {
+  if (typeof value !== 'string' && typeof value !== 'number') return fail(path, 'must be a string');
+  const text = schema.trim ? String(value).trim() : String(value);
+
+  if (!schema.optional && !text.trim()) return fail(path, 'is required');
+  if (schema.optional && !text && !schema.minLength) return { value: text, errors: [] }; // Forms send empty optional fields
+  if (schema.enum && !schema.enum.includes(text)) return fail(path, `must be one of ${schema.enum.join(', ')}`);
+  if (schema.minLength === 1 && !text) return fail(path, 'cannot be empty');
+  if (schema.minLength !== undefined && text.length < schema.minLength) return fail(path, `must be at least ${schema.minLength} characters`);
+  if (schema.maxLength !== undefined && text.length > schema.maxLength) return fail(path, `must be at most ${schema.maxLength} characters`);
+  if (schema.pattern && !schema.pattern.test(text)) return fail(path, 'has an invalid format');
+  if (schema.format === 'email' && !EMAIL_PATTERN.test(text)) return fail(path, 'must be a valid email address');
+  if (schema.format === 'uri') {
+    try {
+      new URL(text);
+    } catch (error) {
+      return fail(path, 'must be a valid URL');
+    }
+  }
+
+  return { value: text, errors: [] };
+};
+
+// Numbers and booleans may arrive as strings (query strings, multipart forms)
+const checkNumber = (value: unknown, schema: NumberField, path: string): Result => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+
+  if (!Number.isFinite(number)) return fail(path, 'must be a number');
+  if (schema.type === 'integer' && !Number.isInteger(number)) return fail(path, 'must be a whole number');
+  if (schema.min !== undefined && number < schema.min) return fail(path, `must be at least ${schema.min}`);
+  if (schema.max !== undefined && number > schema.max) return fail(path, `must be at most ${schema.max}`);
+
+  return { value: number, errors: [] };
+};
+
+const checkBoolean = (value: unknown, path: string): Result => {
+  if (typeof value === 'boolean') return { value, errors: [] };
+  if (value === 'true' || value === 'false') return { value: value === 'true', errors: [] };
+  return fail(path, 'must be true or false');
+};
+
+const checkDate = (value: unknown, path: string): Result => {
+  const date = typeof value === 'string' || value instanceof Date ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) return fail(path, 'must be a valid date');
+  return { value: date, errors: [] };
+};
+
+const checkArray = (value: unknown, schema: ArrayField, path: string): Result => {
+  // Query strings repeat a key (?a=1&a=2) or separate values with commas
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : null;
+  if (!items) return fail(path, 'must be a list');
+
+  if (schema.minItems !== undefined && items.length < schema.minItems) return fail(path, `must have at least ${schema.minItems} entries`);
+  if (schema.maxItems !== undefined && items.length > schema.maxItems) return fail(path, `must have at most ${schema.maxItems} entries`);
+
+  const result: Result = { value: [], errors: [] };
+  items.forEach((item, index) => {
+    const itemResult = checkField(item, { ...schema.items, optional: false }, `${path}[${index}]`);
+    (result.value as unknown[]).push(itemResult.value);
+    result.errors.push(...itemResult.errors);
+  });
+  return result;
+};
+
+const checkObject = (value: unknown, properties: SchemaShape, path: string): Result => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(path, 'must be an object');
+  }
+
+  // Keys the schema doesn't mention are passed through unchanged
+  const output: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  const errors: Result['errors'] = [];
+
+  for (const [key, schema] of Object.entries(properties)) {
+    const fieldResult = checkField((value as Record<string, unknown>)[key], schema, path ? `${path}.${key}` : key);
+    errors.push(...fieldResult.errors);
+
+    if (fieldResult.value === undefined) {
+      delete output[key];
+    } else {
+      output[key] = fieldResult.value;
+    }
+  }
+
+  return { value: output, errors };
+};
+
+const checkField = (value: unknown, schema: FieldSchema, path: string): Result => {
+  if (isMissing(value, schema)) {
+    if (value === null && schema.nullable) return { value: null, errors: [] };
+    if (!schema.optional) return fail(path, 'is required');
+    return { value: schema.default, errors: [] };
+  }
+
+  switch (schema.type) {
+    case 'string': return checkString(value, schema, path);
+    case 'number':
+    case 'integer': return checkNumber(value, schema, path);
+    case 'boolean': return checkBoolean(value, path);
+    case 'date': return checkDate(value, path);
+    case 'array': return checkArray(value, schema, path);
+    case 'object': return checkObject(value, schema.properties, path);
+    case 'any':
+    case 'ref': return { value, errors: [] };
+  }
+};
+
+// Check one part of a request, returning the coerced values or field errors
+export const validateShape = (value: unknown, shape: SchemaShape, location: RequestLocation) => {
+  // A missing body (no Content-Type) is checked as an empty one
+  const { value: output, errors } = checkObject(value ?? {}, shape, '');
+  return {
+    value: output as Record<string, any> | undefined,
+    errors: errors.map(({ path, message }): ValidationError =>
+      path ? { location, field: path, message } : { location, field: location, message: `${location}${message}` })
+  };
+};
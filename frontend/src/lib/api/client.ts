@@ -0,0 +1,184 @@
+import { createApiError, NetworkError, type ErrorBody } from "./errors";
+import { accessTokenExpiresIn, cookieTokenStore, type TokenStore } from "./tokens";
+import type { AuthTokens } from "./types";
+
+export type QueryValue = string | number | boolean | string[] | null | undefined;
+
+export interface RequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;     // Sent as JSON
+  form?: FormData;    // Sent as multipart, for uploads
+  auth?: boolean;     // Attach the access token; defaults to true
+  credentials?: RequestCredentials; // "include" to send and receive the API's cookies
+  signal?: AbortSignal;
+}
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  tokens?: TokenStore;
+  // Called once the refresh token is rejected, e.g. to redirect to the login page
+  onSessionExpired?: () => void;
+  fetch?: typeof fetch;
+}
+
+export interface ApiClient {
+  baseUrl: string;
+  tokens: TokenStore;
+  request<T>(method: string, path: string, options?: RequestOptions): Promise<T>;
+  get<T>(path: string, options?: RequestOptions): Promise<T>;
+  post<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T>;
+  put<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T>;
+  delete<T>(path: string, options?: RequestOptions): Promise<T>;
+  // Current access token, refreshed first when it is about to expire
+  accessToken(): Promise<string | null>;
+  // Exchange the refresh token for new tokens; resolves to null when the session is gone
+  refresh(): Promise<AuthTokens | null>;
+}
+
+// Refresh a little before the access token expires rather than waiting for a 401
+const REFRESH_MARGIN_SECONDS = 30;
+
+export const DEFAULT_API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+const buildUrl = (baseUrl: string, path: string, query?: Record<string, QueryValue>) => {
+  const url = new URL(baseUrl.replace(/\/+$/, "") + path);
+  for (const [name, value] of Object.entries(query ?? {})) {
+    if (value === undefined || value === null || value === "") continue;
+    // The backend reads list query parameters as comma separated values
+    url.searchParams.set(name, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  return url.toString();
+};
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { message: text };
+  }
+};
+
+export const createApiClient = (options: ApiClientOptions = {}): ApiClient => {
+  const baseUrl = options.baseUrl ?? DEFAULT_API_URL;
+  const tokens = options.tokens ?? cookieTokenStore();
+  const fetchImpl: typeof fetch = options.fetch ?? ((input, init) => fetch(input, init));
+
+  // Concurrent requests share one refresh, since each refresh token can only be used once
+  let pendingRefresh: Promise<AuthTokens | null> | null = null;
+
+  const refresh = (): Promise<AuthTokens | null> => {
+    if (pendingRefresh) return pendingRefresh;
+
+    const current = tokens.get();
+    if (!current) return Promise.resolve(null);
+
+    pendingRefresh = (async () => {
+      try {
+        const response = await fetchImpl(buildUrl(baseUrl, "/api/auth/refresh"), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken: current.refreshToken }),
+        });
+
+        if (!response.ok) {
+          // Only a rejected refresh token ends the session; keep it through server errors
+          if (response.status === 401 || response.status === 403 || response.status === 400) {
+            tokens.clear();
+            options.onSessionExpired?.();
+          }
+          return null;
+        }
+
+        const next = (await response.json()) as AuthTokens;
+        tokens.set(next);
+        return next;
+      } catch {
+        return null;
+      } finally {
+        pendingRefresh = null;
+      }
+    })();
+
+    return pendingRefresh;
+  };
+
+  const accessToken = async (): Promise<string | null> => {
+    const current = tokens.get();
+    if (!current) return null;
+
+    const expiresIn = accessTokenExpiresIn(current.accessToken);
+    if (expiresIn !== null && expiresIn < REFRESH_MARGIN_SECONDS) {
+      // Falls back to the current token when the refresh could not reach the server
+      const refreshed = await refresh();
+      return refreshed?.accessToken ?? tokens.get()?.accessToken ?? null;
+    }
+    return current.accessToken;
+  };
+
+  const send = async (method: string, path: string, requestOptions: RequestOptions, token: string | null) => {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    let body: BodyInit | undefined;
+
+    if (requestOptions.form) {
+      body = requestOptions.form; // fetch sets the multipart boundary itself
+    } else if (requestOptions.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify(requestOptions.body);
+    }
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    try {
+      return await fetchImpl(buildUrl(baseUrl, path, requestOptions.query), {
+        method,
+        headers,
+        body,
+        credentials: requestOptions.credentials,
+        signal: requestOptions.signal,
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") throw error;
+      throw new NetworkError(error);
+    }
+  };
+
+  const request = async <T>(method: string, path: string, requestOptions: RequestOptions = {}): Promise<T> => {
+    const useAuth = requestOptions.auth ?? true;
+    const token = useAuth ? await accessToken() : null;
+    let response = await send(method, path, requestOptions, token);
+
+    // The token may have been revoked or expired in flight: refresh once and retry
+    if (response.status === 401 && token) {
+      const refreshed = await refresh();
+      if (refreshed) {
+        response = await send(method, path, requestOptions, refreshed.accessToken);
+      }
+    }
+
+    const data = await readBody(response);
+    if (!response.ok) {
+      const errorBody = data && typeof data === "object" ? (data as ErrorBody) : { message: response.statusText };
+      throw createApiError(response, errorBody);
+    }
+    return data as T;
+  };
+
+  return {
+    baseUrl,
+    tokens,
+    request,
+    get: (path, requestOptions) => request("GET", path, requestOptions),
+    post: (path, body, requestOptions) => request("POST", path, { ...requestOptions, body }),
+    put: (path, body, requestOptions) => request("PUT", path, { ...requestOptions, body }),
+    delete: (path, requestOptions) => request("DELETE", path, requestOptions),
+    accessToken,
+    refresh,
+  };
+};
+
+// Encode path parameters, e.g. apiPath`/api/profiles/${userId}`
+export const apiPath = (strings: TemplateStringsArray, ...params: (string | number)[]) =>
+  strings.reduce((result, part, index) => result + part + (index < params.length ? encodeURIComponent(params[index]) : ""), "");
@@ -0,0 +1,107 @@
+import { apiPath, type ApiClient } from "../client";
+import type {
+  Booking,
+  BookingStatus,
+  EmailJob,
+  EmailJobStatus,
+  JobStatus,
+  Lockout,
+  Match,
+  MatchStatus,
+  MatchingConfig,
+  MatchingEvaluation,
+  MatchingWeights,
+  MessageResponse,
+  Pagination,
+  ScoringConfig,
+  User,
+  UserRole,
+} from "../types";
+
+export interface DashboardStats {
+  users: { total: number; auPairs: number; hostFamilies: number; activeUsers: number };
+  matches: { total: number; approved: number; pending: number; rejected: number };
+  bookings: { total: number; approved: number; pending: number };
+  documents: { total: number; pending: number; verified: number; rejected: number };
+  messages: { total: number };
+}
+
+export interface MatchingConfigInput {
+  name?: string | null;
+  weights: MatchingWeights;
+  thresholds?: Record<string, unknown>; // Defaults to the built-in thresholds
+}
+
+// Match count and average score per config version ("unversioned" for old matches) and status
+export type MatchingOutcomes = Record<string, Partial<Record<MatchStatus, { count: number; averageScore: number | null }>>>;
+
+interface PageQuery {
+  page?: number;
+  limit?: number;
+}
+
+export const adminEndpoints = (client: ApiClient) => ({
+  dashboard: () =>
+    client.get<{ stats: DashboardStats; recentActivity: { users: User[]; matches: Match[] } }>("/api/admin/dashboard"),
+
+  users: (filter: PageQuery & { role?: UserRole; status?: "active" | "inactive"; search?: string } = {}) =>
+    client.get<{ users: User[]; pagination: Pagination }>("/api/admin/users", { query: { ...filter } }),
+
+  setUserActive: (userId: string, isActive: boolean) =>
+    client.put<MessageResponse & { user: User }>(apiPath`/api/admin/users/${userId}/status`, { isActive }),
+
+  deleteUser: (userId: string) => client.delete<MessageResponse>(apiPath`/api/admin/users/${userId}`),
+
+  createAdmin: (email: string, password: string) =>
+    client.post<MessageResponse & { user: User }>("/api/admin/users/create-admin", { email, password }),
+
+  matches: (filter: PageQuery & { status?: MatchStatus; configVersion?: number } = {}) =>
+    client.get<{ matches: Match[]; pagination: Pagination }>("/api/admin/matches", { query: { ...filter } }),
+
+  bookings: (filter: PageQuery & { status?: BookingStatus } = {}) =>
+    client.get<{ bookings: Booking[]; pagination: Pagination }>("/api/admin/bookings", { query: { ...filter } }),
+
+  lockouts: (type: "account" | "ip" = "account") =>
+    client.get<{ lockouts: Lockout[] }>("/api/admin/lockouts", { query: { type } }),
+
+  clearLockout: (email: string) => client.delete<MessageResponse>(apiPath`/api/admin/lockouts/${email}`),
+
+  // Defaults to the failed (dead-lettered) emails
+  emails: (filter: PageQuery & { status?: EmailJobStatus } = {}) =>
+    client.get<{ emails: EmailJob[]; pagination: Pagination }>("/api/admin/emails", { query: { ...filter } }),
+
+  resendEmail: (jobId: string) =>
+    client.post<MessageResponse & { email: { id: string; status: EmailJobStatus } }>(apiPath`/api/admin/emails/${jobId}/resend`),
+
+  jobs: () => client.get<{ jobs: JobStatus[] }>("/api/admin/jobs"),
+
+  matchingConfigs: {
+    list: () =>
+      client.get<{ configs: MatchingConfig[]; defaultConfig: ScoringConfig; outcomes: MatchingOutcomes }>(
+        "/api/admin/matching-configs",
+      ),
+
+    // The built-in default (version 0) when no config is active
+    active: () => client.get<{ config: ScoringConfig }>("/api/admin/matching-configs/active"),
+
+    // Replays approved and rejected matches; learn also proposes weights fitted to them
+    evaluate: (options: { version?: number; threshold?: number; since?: string; learn?: boolean } = {}) =>
+      client.get<MatchingEvaluation>("/api/admin/matching-configs/evaluation", { query: { ...options } }),
+
+    create: (input: MatchingConfigInput & { activate?: boolean }) =>
+      client.post<MessageResponse & { config: MatchingConfig }>("/api/admin/matching-configs", input),
+
+    // Only configs that have not scored any matches yet
+    update: (version: number, input: Partial<MatchingConfigInput>) =>
+      client.put<MessageResponse & { config: MatchingConfig }>(apiPath`/api/admin/matching-configs/${version}`, input),
+
+    remove: (version: number) => client.delete<MessageResponse>(apiPath`/api/admin/matching-configs/${version}`),
+
+    activate: (version: number) =>
+      client.post<MessageResponse & { config: MatchingConfig }>(apiPath`/api/admin/matching-configs/${version}/activate`),
+
+    // Falls back to the built-in default config
+    deactivate: () =>
+      client.post<MessageResponse & { config: ScoringConfig }>("/api/admin/matching-configs/deactivate"),
+  },
+});
@@ -0,0 +1,85 @@
+import { apiPath, type ApiClient } from "../client";
+import type { LoginResponse, MessageResponse, Session, SignupRole, TwoFactorSetup, User } from "../types";
+
+// Keep the tokens of a successful login; two-factor challenges and unverified signups carry none
+export const storeTokens = <T extends Partial<LoginResponse>>(client: ApiClient, response: T): T => {
+  if (response.accessToken && response.refreshToken) {
+    client.tokens.set({ accessToken: response.accessToken, refreshToken: response.refreshToken });
+  }
+  return response;
+};
+
+export interface RegisterInput {
+  email: string;
+  password: string;
+  role: SignupRole;
+  locale?: string;
+}
+
+// Send either a code from the authenticator app or one of the recovery codes
+export interface TwoFactorCode {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export const authEndpoints = (client: ApiClient) => ({
+  register: async (input: RegisterInput) =>
+    storeTokens(client, await client.post<LoginResponse & { user: User }>("/api/auth/register", input, { auth: false })),
+
+  login: async (email: string, password: string) =>
+    storeTokens(client, await client.post<LoginResponse>("/api/auth/login", { email, password }, { auth: false })),
+
+  loginWithTwoFactor: async (challengeToken: string, code: TwoFactorCode) =>
+    storeTokens(client, await client.post<LoginResponse>("/api/auth/login/2fa", { challengeToken, ...code }, { auth: false })),
+
+  // Revokes the current session on the server, then forgets the tokens locally
+  logout: async () => {
+    try {
+      const { sessions } = await client.get<{ sessions: Session[] }>("/api/auth/sessions");
+      const current = sessions.find((session) => session.current);
+      if (current) {
+        await client.delete<MessageResponse>(apiPath`/api/auth/sessions/${current.id}`);
+      }
+    } finally {
+      client.tokens.clear();
+    }
+  },
+
+  me: () => client.get<{ user: User }>("/api/auth/me"),
+
+  verifyEmail: (token: string) => client.post<MessageResponse>("/api/auth/verify-email", { token }, { auth: false }),
+
+  resendVerification: (email: string) =>
+    client.post<MessageResponse>("/api/auth/resend-verification", { email }, { auth: false }),
+
+  forgotPassword: (email: string) => client.post<MessageResponse>("/api/auth/forgot-password", { email }, { auth: false }),
+
+  resetPassword: (token: string, password: string) =>
+    client.post<MessageResponse>("/api/auth/reset-password", { token, password }, { auth: false }),
+
+  changeEmail: (newEmail: string, password: string) =>
+    client.post<MessageResponse>("/api/auth/change-email", { newEmail, password }),
+
+  confirmEmailChange: (token: string) =>
+    client.post<MessageResponse>("/api/auth/confirm-email-change", { token }, { auth: false }),
+
+  // Other sessions are revoked; this one stays logged in
+  changePassword: (currentPassword: string, newPassword: string) =>
+    client.post<MessageResponse & { revokedSessions: number }>("/api/auth/change-password", { currentPassword, newPassword }),
+
+  sessions: () => client.get<{ sessions: Session[] }>("/api/auth/sessions"),
+
+  revokeSession: (sessionId: string) => client.delete<MessageResponse>(apiPath`/api/auth/sessions/${sessionId}`),
+
+  twoFactor: {
+    setup: () => client.post<TwoFactorSetup>("/api/auth/2fa/setup"),
+
+    enable: (code: string) => client.post<MessageResponse & { recoveryCodes: string[] }>("/api/auth/2fa/enable", { code }),
+
+    regenerateRecoveryCodes: (code: string) =>
+      client.post<{ recoveryCodes: string[] }>("/api/auth/2fa/recovery-codes", { code }),
+
+    disable: (password: string, code: TwoFactorCode) =>
+      client.post<MessageResponse>("/api/auth/2fa/disable", { password, ...code }),
+  },
+});
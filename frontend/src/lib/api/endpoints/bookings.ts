@@ -0,0 +1,39 @@
+import { apiPath, type ApiClient } from "../client";
+import type { BookedSlot, Booking, BookingStatus, IsoDate, MessageResponse } from "../types";
+
+export interface BookingDetails {
+  totalHours?: number;
+  hourlyRate?: number;
+  currency?: string; // ISO 4217 code
+  notes?: string | null;
+}
+
+export interface BookingInput extends BookingDetails {
+  targetUserId: string;
+  startDate: IsoDate;
+  endDate: IsoDate;
+}
+
+export const bookingEndpoints = (client: ApiClient) => ({
+  // Only between an au pair and a host family with an approved match
+  create: (input: BookingInput) => client.post<MessageResponse & { booking: Booking }>("/api/bookings", input),
+
+  mine: (filter: { status?: BookingStatus; upcoming?: boolean } = {}) =>
+    client.get<{ bookings: Booking[] }>("/api/bookings/my-bookings", { query: { ...filter } }),
+
+  get: (bookingId: string) => client.get<{ booking: Booking }>(apiPath`/api/bookings/${bookingId}`),
+
+  // Pending bookings only
+  update: (bookingId: string, input: Partial<Omit<BookingInput, "targetUserId">>) =>
+    client.put<MessageResponse & { booking: Booking }>(apiPath`/api/bookings/${bookingId}`, input),
+
+  setStatus: (bookingId: string, status: Exclude<BookingStatus, "PENDING">, notes?: string | null) =>
+    client.put<MessageResponse & { booking: Booking }>(apiPath`/api/bookings/${bookingId}/status`, { status, notes }),
+
+  remove: (bookingId: string) => client.delete<MessageResponse>(apiPath`/api/bookings/${bookingId}`),
+
+  availability: (auPairId: string, range: { startDate?: IsoDate; endDate?: IsoDate } = {}) =>
+    client.get<{ bookedSlots: BookedSlot[] }>(apiPath`/api/bookings/au-pair/${auPairId}/availability`, {
+      query: { ...range },
+    }),
+});
@@ -0,0 +1,25 @@
+import { apiPath, type ApiClient } from "../client";
+import type { Document, DocumentStatus, DocumentType, MessageResponse, Pagination } from "../types";
+
+export const documentEndpoints = (client: ApiClient) => ({
+  // Replaces an existing document of the same type and resets it to pending
+  upload: (type: DocumentType, file: Blob, filename?: string) => {
+    const form = new FormData();
+    form.append("type", type);
+    form.append("document", file, filename ?? (file instanceof File ? file.name : "document"));
+    return client.request<MessageResponse & { document: Document }>("POST", "/api/documents/upload", { form });
+  },
+
+  mine: () => client.get<{ documents: Document[] }>("/api/documents/my-documents"),
+
+  forUser: (userId: string) => client.get<{ documents: Document[] }>(apiPath`/api/documents/user/${userId}`),
+
+  remove: (documentId: string) => client.delete<MessageResponse>(apiPath`/api/documents/${documentId}`),
+
+  // Admins only
+  setStatus: (documentId: string, status: DocumentStatus, notes?: string | null) =>
+    client.put<MessageResponse & { document: Document }>(apiPath`/api/documents/${documentId}/status`, { status, notes }),
+
+  all: (filter: { status?: DocumentStatus; type?: DocumentType; page?: number; limit?: number } = {}) =>
+    client.get<{ documents: Document[]; pagination: Pagination }>("/api/documents/all", { query: { ...filter } }),
+});
@@ -0,0 +1,113 @@
+import { apiPath, type ApiClient } from "../client";
+import type {
+  DismissalType,
+  Match,
+  MatchCriteria,
+  MatchDismissal,
+  MatchNote,
+  MatchStatus,
+  MatchesPage,
+  MessageResponse,
+  SavedSearch,
+  ShortlistEntry,
+  ShortlistStage,
+} from "../types";
+
+export interface PageOptions {
+  limit?: number;
+  cursor?: string | null; // nextCursor from the previous page
+}
+
+export interface SavedSearchInput {
+  name: string;
+  criteria?: MatchCriteria;
+  notifyOnNew?: boolean;
+}
+
+export interface ShortlistUpdate {
+  starred?: boolean;
+  rank?: number | null; // null clears the rank
+  stage?: ShortlistStage;
+}
+
+export const matchEndpoints = (client: ApiClient) => ({
+  // Best score first; pass nextCursor back as cursor for the next page
+  potential: (criteria: MatchCriteria = {}, page: PageOptions & { includeExisting?: boolean } = {}) =>
+    client.get<MatchesPage>("/api/matches/potential", { query: { ...criteria, ...page } }),
+
+  mine: (status?: MatchStatus) => client.get<{ matches: Match[] }>("/api/matches/my-matches", { query: { status } }),
+
+  request: (targetUserId: string, notes?: string | null) =>
+    client.post<MessageResponse & { match: Match }>("/api/matches", { targetUserId, notes }),
+
+  respond: (matchId: string, status: Extract<MatchStatus, "APPROVED" | "REJECTED">, notes?: string | null) =>
+    client.put<MessageResponse & { match: Match }>(apiPath`/api/matches/${matchId}/status`, { status, notes }),
+
+  remove: (matchId: string) => client.delete<MessageResponse>(apiPath`/api/matches/${matchId}`),
+
+  // A like from both sides creates an approved match
+  like: (targetUserId: string) =>
+    client.post<MessageResponse & { mutual: boolean; match?: Match }>("/api/matches/like", { targetUserId }),
+
+  unlike: (targetUserId: string) => client.delete<MessageResponse>(apiPath`/api/matches/like/${targetUserId}`),
+
+  pass: (targetUserId: string) =>
+    client.post<MessageResponse & { dismissal: MatchDismissal }>("/api/matches/pass", { targetUserId }),
+
+  block: (targetUserId: string) =>
+    client.post<MessageResponse & { dismissal: MatchDismissal }>("/api/matches/block", { targetUserId }),
+
+  dismissals: (type?: DismissalType) =>
+    client.get<{ dismissals: MatchDismissal[] }>("/api/matches/dismissals", { query: { type } }),
+
+  undoDismissal: (targetUserId: string) =>
+    client.delete<MessageResponse>(apiPath`/api/matches/dismissals/${targetUserId}`),
+
+  savedSearches: {
+    list: () => client.get<{ searches: SavedSearch[] }>("/api/matches/saved-searches"),
+
+    create: (input: SavedSearchInput) =>
+      client.post<MessageResponse & { search: SavedSearch }>("/api/matches/saved-searches", input),
+
+    update: (searchId: string, input: Partial<SavedSearchInput>) =>
+      client.put<MessageResponse & { search: SavedSearch }>(apiPath`/api/matches/saved-searches/${searchId}`, input),
+
+    remove: (searchId: string) => client.delete<MessageResponse>(apiPath`/api/matches/saved-searches/${searchId}`),
+
+    results: (searchId: string, page: PageOptions = {}) =>
+      client.get<MatchesPage & { search: SavedSearch }>(apiPath`/api/matches/saved-searches/${searchId}/results`, {
+        query: { ...page },
+      }),
+  },
+
+  // Host families only
+  shortlist: {
+    list: (filter: { stage?: ShortlistStage; starred?: boolean } = {}) =>
+      client.get<{ entries: ShortlistEntry[] }>("/api/matches/shortlist", { query: { ...filter } }),
+
+    board: () =>
+      client.get<{ columns: { stage: ShortlistStage; entries: ShortlistEntry[] }[]; total: number }>(
+        "/api/matches/shortlist/board",
+      ),
+
+    // Adds the match to the shortlist if it isn't on it yet
+    update: (matchId: string, update: ShortlistUpdate) =>
+      client.put<MessageResponse & { entry: ShortlistEntry }>(apiPath`/api/matches/${matchId}/shortlist`, update),
+
+    remove: (matchId: string) => client.delete<MessageResponse>(apiPath`/api/matches/${matchId}/shortlist`),
+  },
+
+  // Private to the author
+  notes: {
+    list: (matchId: string) => client.get<{ notes: MatchNote[] }>(apiPath`/api/matches/${matchId}/notes`),
+
+    create: (matchId: string, content: string) =>
+      client.post<MessageResponse & { note: MatchNote }>(apiPath`/api/matches/${matchId}/notes`, { content }),
+
+    update: (matchId: string, noteId: string, content: string) =>
+      client.put<MessageResponse & { note: MatchNote }>(apiPath`/api/matches/${matchId}/notes/${noteId}`, { content }),
+
+    remove: (matchId: string, noteId: string) =>
+      client.delete<MessageResponse>(apiPath`/api/matches/${matchId}/notes/${noteId}`),
+  },
+});
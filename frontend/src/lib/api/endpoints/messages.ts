@@ -0,0 +1,19 @@
+import { apiPath, type ApiClient } from "../client";
+import type { Conversation, Message, MessageResponse } from "../types";
+
+// Live delivery goes through the socket (see ../socket.ts); these cover history and fallbacks
+export const messageEndpoints = (client: ApiClient) => ({
+  conversations: () => client.get<{ conversations: Conversation[] }>("/api/messages/conversations"),
+
+  conversation: (userId: string, page: { page?: number; limit?: number } = {}) =>
+    client.get<{ messages: Message[] }>(apiPath`/api/messages/conversation/${userId}`, { query: { ...page } }),
+
+  send: (receiverId: string, content: string) =>
+    client.post<MessageResponse & { data: Message }>("/api/messages/send", { receiverId, content }),
+
+  markRead: (senderId: string) => client.put<MessageResponse>("/api/messages/mark-read", { senderId }),
+
+  unreadCount: () => client.get<{ unreadCount: number }>("/api/messages/unread-count"),
+
+  remove: (messageId: string) => client.delete<MessageResponse>(apiPath`/api/messages/${messageId}`),
+});
@@ -0,0 +1,22 @@
+import { apiPath, type ApiClient } from "../client";
+import type { MessageResponse, Notification, NotificationPreferences, Pagination } from "../types";
+
+export const notificationEndpoints = (client: ApiClient) => ({
+  list: (filter: { page?: number; limit?: number; unreadOnly?: boolean } = {}) =>
+    client.get<{ notifications: Notification[]; unreadCount: number; pagination: Pagination }>("/api/notifications", {
+      query: { ...filter },
+    }),
+
+  unreadCount: () => client.get<{ unreadCount: number }>("/api/notifications/unread-count"),
+
+  markRead: (notificationId: string) =>
+    client.put<MessageResponse & { notification: Notification }>(apiPath`/api/notifications/${notificationId}/read`),
+
+  markAllRead: () => client.put<MessageResponse & { updated: number }>("/api/notifications/read-all"),
+
+  preferences: () => client.get<{ preferences: NotificationPreferences }>("/api/notifications/preferences"),
+
+  // Only the provided fields change; clear quiet hours by sending both as null
+  updatePreferences: (update: Partial<NotificationPreferences>) =>
+    client.put<MessageResponse & { preferences: NotificationPreferences }>("/api/notifications/preferences", update),
+});
@@ -0,0 +1,28 @@
+import { apiPath, type ApiClient } from "../client";
+import type { LoginResponse, OidcCallbackResponse, SignupRole } from "../types";
+import { storeTokens } from "./auth";
+
+export const oidcEndpoints = (client: ApiClient) => ({
+  providers: () => client.get<{ providers: string[] }>("/api/auth/oidc/providers", { auth: false }),
+
+  // Redirect the browser to authorizationUrl; the provider sends code and state back.
+  // Both calls include credentials: the state is also kept in a cookie set by the API.
+  authorize: (provider: string) =>
+    client.get<{ authorizationUrl: string; state: string }>(apiPath`/api/auth/oidc/${provider}/authorize`, {
+      auth: false,
+      credentials: "include",
+    }),
+
+  // First-time users without a role get roleSelectionRequired and a signupToken for completeSignup
+  callback: async (provider: string, input: { code: string; state: string; role?: SignupRole }) =>
+    storeTokens(
+      client,
+      await client.post<OidcCallbackResponse>(apiPath`/api/auth/oidc/${provider}/callback`, input, {
+        auth: false,
+        credentials: "include",
+      }),
+    ),
+
+  completeSignup: async (signupToken: string, role: SignupRole) =>
+    storeTokens(client, await client.post<LoginResponse>("/api/auth/oidc/complete-signup", { signupToken, role }, { auth: false })),
+});
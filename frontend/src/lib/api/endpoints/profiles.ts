@@ -0,0 +1,70 @@
+import { apiPath, type ApiClient } from "../client";
+import type {
+  AuPairProfile,
+  CountryOption,
+  HostFamilyProfile,
+  IsoDate,
+  LanguageOption,
+  MessageResponse,
+  Profile,
+  ProfileCompleteness,
+  UserRole,
+} from "../types";
+
+interface ProfileInput {
+  bio?: string | null;
+  currency?: string;
+  profilePhotoUrl?: string | null;
+}
+
+// Languages and countries may be names or ISO codes; the backend stores codes
+export interface AuPairProfileInput extends ProfileInput {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: IsoDate;
+  experience?: string | null;
+  education?: string | null;
+  videoUrl?: string | null;
+  hourlyRate?: number | null;
+  availableFrom?: IsoDate | null;
+  availableTo?: IsoDate | null;
+  preferredLocation?: string | null; // City name or "latitude,longitude"
+  maxDistanceKm?: number | null;
+  languages?: string[] | null;
+  skills?: string[] | null;
+  preferredCountries?: string[] | null;
+  preferredRegions?: string[] | null;
+}
+
+export interface HostFamilyProfileInput extends ProfileInput {
+  familyName: string;
+  contactPersonName: string;
+  location: string;
+  country: string;
+  numberOfChildren: number;
+  childrenAges?: number[] | null;
+  preferredLanguages?: string[] | null;
+  requirements?: string | null;
+  maxBudget?: number | null;
+}
+
+export const profileEndpoints = (client: ApiClient) => ({
+  saveAuPair: (input: AuPairProfileInput) =>
+    client.post<MessageResponse & { profile: AuPairProfile }>("/api/profiles/au-pair", input),
+
+  saveHostFamily: (input: HostFamilyProfileInput) =>
+    client.post<MessageResponse & { profile: HostFamilyProfile }>("/api/profiles/host-family", input),
+
+  // null until the profile has been created
+  mine: () => client.get<{ profile: Profile | null }>("/api/profiles/me"),
+
+  completeness: () => client.get<{ completeness: ProfileCompleteness }>("/api/profiles/me/completeness"),
+
+  deleteMine: () => client.delete<MessageResponse>("/api/profiles/me"),
+
+  regions: (country?: string) => client.get<{ regions: string[] }>("/api/profiles/regions", { query: { country } }),
+
+  options: () => client.get<{ languages: LanguageOption[]; countries: CountryOption[] }>("/api/profiles/options"),
+
+  get: (userId: string) => client.get<{ profile: Profile | null; userRole: UserRole }>(apiPath`/api/profiles/${userId}`),
+});
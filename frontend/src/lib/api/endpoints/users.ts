@@ -0,0 +1,8 @@
+import type { ApiClient } from "../client";
+import type { User } from "../types";
+
+export const userEndpoints = (client: ApiClient) => ({
+  list: () => client.get<User[]>("/api/users"),
+
+  me: () => client.get<{ user: User }>("/api/users/me"),
+});
@@ -0,0 +1,95 @@
+// Errors thrown by the API client. Non-2xx responses become an ApiError subclass chosen
+// by status, so callers can branch with instanceof instead of inspecting status codes.
+
+export interface FieldError {
+  location: "params" | "query" | "body";
+  field: string;
+  message: string;
+}
+
+// Error body sent by every backend route
+export interface ErrorBody {
+  message: string;
+  errors?: FieldError[];
+  retryAfter?: number;
+  emailNotVerified?: boolean;
+  [key: string]: unknown;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: ErrorBody;
+
+  constructor(status: number, body: ErrorBody) {
+    super(body.message);
+    this.name = new.target.name;
+    this.status = status;
+    this.body = body;
+  }
+
+  get errors(): FieldError[] {
+    return this.body.errors ?? [];
+  }
+}
+
+// 400: the request failed schema validation or a business rule
+export class ValidationError extends ApiError {
+  // Messages keyed by field name, for showing next to form inputs
+  get fieldErrors(): Record<string, string> {
+    return Object.fromEntries(this.errors.map((error) => [error.field, error.message]));
+  }
+}
+
+// 401: missing or expired credentials that could not be refreshed
+export class AuthenticationError extends ApiError {}
+
+// 403: authenticated but not allowed, e.g. wrong role or an unverified email
+export class ForbiddenError extends ApiError {
+  get emailNotVerified(): boolean {
+    return this.body.emailNotVerified === true;
+  }
+}
+
+export class NotFoundError extends ApiError {}
+
+export class ConflictError extends ApiError {}
+
+// 429: login lockouts and rate limits
+export class RateLimitError extends ApiError {
+  readonly retryAfter: number | null;
+
+  constructor(status: number, body: ErrorBody, retryAfterHeader: string | null) {
+    super(status, body);
+    const header = retryAfterHeader === null ? NaN : Number(retryAfterHeader);
+    this.retryAfter = body.retryAfter ?? (Number.isFinite(header) ? header : null);
+  }
+}
+
+export class ServerError extends ApiError {}
+
+// The request never got a response: offline, DNS failure, CORS or an aborted request
+export class NetworkError extends Error {
+  constructor(cause: unknown) {
+    super(cause instanceof Error ? cause.message : "Network request failed", { cause });
+    this.name = "NetworkError";
+  }
+}
+
+export const createApiError = (response: Response, body: ErrorBody): ApiError => {
+  switch (response.status) {
+    case 400:
+      return new ValidationError(response.status, body);
+    case 401:
+      return new AuthenticationError(response.status, body);
+    case 403:
+      return new ForbiddenError(response.status, body);
+    case 404:
+      return new NotFoundError(response.status, body);
+    case 409:
+      return new ConflictError(response.status, body);
+    case 429:
+      return new RateLimitError(response.status, body, response.headers.get("Retry-After"));
+    default:
+      return response.status >= 500 ? new ServerError(response.status, body) : new ApiError(response.status, body);
+  }
+};
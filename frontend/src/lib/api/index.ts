@@ -0,0 +1,53 @@
+import { createApiClient, type ApiClientOptions } from "./client";
+import { adminEndpoints } from "./endpoints/admin";
+import { authEndpoints } from "./endpoints/auth";
+import { bookingEndpoints } from "./endpoints/bookings";
+import { documentEndpoints } from "./endpoints/documents";
+import { matchEndpoints } from "./endpoints/matches";
+import { messageEndpoints } from "./endpoints/messages";
+import { notificationEndpoints } from "./endpoints/notifications";
+import { oidcEndpoints } from "./endpoints/oidc";
+import { profileEndpoints } from "./endpoints/profiles";
+import { userEndpoints } from "./endpoints/users";
+import { createChatConnection } from "./socket";
+
+// Typed client for the backend API, grouped like the backend routers:
+//
+//   const api = createApi({ onSessionExpired: () => router.push("/login") });
+//   const { matches, nextCursor } = await api.matches.potential({ country: "DE" });
+//
+// Requests send the access token and refresh it through /api/auth/refresh when it
+// expires; failures throw the error classes from ./errors.
+export const createApi = (options: ApiClientOptions = {}) => {
+  const client = createApiClient(options);
+
+  return {
+    client,
+    auth: authEndpoints(client),
+    oidc: oidcEndpoints(client),
+    users: userEndpoints(client),
+    profiles: profileEndpoints(client),
+    matches: matchEndpoints(client),
+    messages: messageEndpoints(client),
+    documents: documentEndpoints(client),
+    bookings: bookingEndpoints(client),
+    notifications: notificationEndpoints(client),
+    admin: adminEndpoints(client),
+    // Not connected until connect() is called
+    chat: (url?: string) => createChatConnection(client, { url }),
+  };
+};
+
+export type Api = ReturnType<typeof createApi>;
+
+export * from "./errors";
+export * from "./types";
+export { apiPath, createApiClient, DEFAULT_API_URL } from "./client";
+export type { ApiClient, ApiClientOptions, RequestOptions } from "./client";
+export { cookieTokenStore, memoryTokenStore } from "./tokens";
+export type { TokenStore } from "./tokens";
+export type { ChatConnection, ChatSocket, ClientToServerEvents, ServerToClientEvents, SocketMessage } from "./socket";
+export type { AuPairProfileInput, HostFamilyProfileInput } from "./endpoints/profiles";
+export type { BookingInput } from "./endpoints/bookings";
+export type { PageOptions, SavedSearchInput, ShortlistUpdate } from "./endpoints/matches";
+export type { DashboardStats, MatchingConfigInput } from "./endpoints/admin";
@@ -0,0 +1,122 @@
+import { io, type Socket } from "socket.io-client";
+import type { ApiClient } from "./client";
+import type { IsoDate, Match, Notification, User } from "./types";
+
+// Events from backend/src/sockets/messageHandlers.ts, plus the notification and
+// mutual match events pushed to each user's personal room
+
+export interface SocketMessage {
+  id: string;
+  content: string;
+  senderId: string;
+  receiverId: string;
+  createdAt: IsoDate;
+  sender: User;
+}
+
+export interface ServerToClientEvents {
+  new_message: (message: SocketMessage) => void;
+  message_notification: (data: { messageId: string; senderId: string; senderName?: string; preview: string }) => void;
+  user_typing: (data: { userId: string }) => void;
+  user_stopped_typing: (data: { userId: string }) => void;
+  messages_marked_read: (data: { readBy: string }) => void;
+  online_status: (data: { onlineUsers: string[] }) => void;
+  notification: (notification: Notification) => void;
+  mutual_match: (data: { match: Match }) => void;
+  error: (data: { message: string }) => void;
+}
+
+export interface ClientToServerEvents {
+  join_conversation: (data: { receiverId: string }) => void;
+  leave_conversation: (data: { receiverId: string }) => void;
+  send_message: (data: { receiverId: string; content: string }) => void;
+  typing_start: (data: { receiverId: string }) => void;
+  typing_stop: (data: { receiverId: string }) => void;
+  mark_messages_read: (data: { senderId: string }) => void;
+  get_online_status: (data: { userIds: string[] }) => void;
+}
+
+export type ChatSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export interface ChatConnection {
+  socket: ChatSocket;
+  connect(): void;
+  disconnect(): void;
+  on<E extends keyof ServerToClientEvents>(event: E, listener: ServerToClientEvents[E]): () => void;
+  joinConversation(userId: string): void;
+  leaveConversation(userId: string): void;
+  sendMessage(receiverId: string, content: string): void;
+  startTyping(receiverId: string): void;
+  stopTyping(receiverId: string): void;
+  markRead(senderId: string): void;
+  onlineStatus(userIds: string[]): Promise<string[]>;
+}
+
+const ONLINE_STATUS_TIMEOUT_MS = 5000;
+
+// The socket authenticates with the access token in the handshake. It is read on every
+// (re)connect, and a rejected token is refreshed once before giving up.
+export const createChatConnection = (client: ApiClient, options: { url?: string } = {}): ChatConnection => {
+  const socket: ChatSocket = io(options.url ?? client.baseUrl, {
+    autoConnect: false,
+    auth: (callback) => {
+      client.accessToken().then((token) => callback({ token }), () => callback({ token: null }));
+    },
+  });
+
+  let retriedAuth = false;
+
+  socket.on("connect", () => {
+    retriedAuth = false;
+  });
+
+  // The server rejects the handshake with "Authentication error: ..." and doesn't retry on its own
+  socket.on("connect_error", async (error) => {
+    if (!error.message.startsWith("Authentication error") || retriedAuth) return;
+    retriedAuth = true;
+
+    if (await client.refresh()) {
+      socket.connect();
+    }
+  });
+
+  return {
+    socket,
+    connect: () => {
+      socket.connect();
+    },
+    disconnect: () => {
+      socket.disconnect();
+    },
+    // Returns a function that removes the listener, for effect cleanups
+    on: (event, listener) => {
+      // The casts work around socket.io's generic listener typing
+      socket.on(event, listener as never);
+      return () => {
+        socket.off(event, listener as never);
+      };
+    },
+    joinConversation: (userId) => socket.emit("join_conversation", { receiverId: userId }),
+    leaveConversation: (userId) => socket.emit("leave_conversation", { receiverId: userId }),
+    sendMessage: (receiverId, content) => socket.emit("send_message", { receiverId, content }),
+    startTyping: (receiverId) => socket.emit("typing_start", { receiverId }),
+    stopTyping: (receiverId) => socket.emit("typing_stop", { receiverId }),
+    markRead: (senderId) => socket.emit("mark_messages_read", { senderId }),
+    // Resolves with the subset of userIds that have a connected socket
+    onlineStatus: (userIds) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          socket.off("online_status", handle);
+          reject(new Error("Timed out waiting for online status"));
+        }, ONLINE_STATUS_TIMEOUT_MS);
+
+        const handle = ({ onlineUsers }: { onlineUsers: string[] }) => {
+          clearTimeout(timer);
+          resolve(onlineUsers);
+        };
+
+        socket.once("online_status", handle);
+        socket.emit("get_online_status", { userIds });
+      }),
+  };
+};
@@ -0,0 +1,57 @@
+import Cookies from "js-cookie";
+import type { AuthTokens } from "./types";
+
+// Where the client keeps the access and refresh tokens between requests
+export interface TokenStore {
+  get(): AuthTokens | null;
+  set(tokens: AuthTokens): void;
+  clear(): void;
+}
+
+const ACCESS_TOKEN_COOKIE = "accessToken";
+const REFRESH_TOKEN_COOKIE = "refreshToken";
+const REFRESH_TOKEN_DAYS = 7; // Matches the backend refresh token lifetime
+
+// Browser store; the cookies are readable by the client because it sends the tokens itself
+export const cookieTokenStore = (): TokenStore => ({
+  get() {
+    const accessToken = Cookies.get(ACCESS_TOKEN_COOKIE);
+    const refreshToken = Cookies.get(REFRESH_TOKEN_COOKIE);
+    return accessToken && refreshToken ? { accessToken, refreshToken } : null;
+  },
+  set({ accessToken, refreshToken }) {
+    const secure = typeof window !== "undefined" && window.location.protocol === "https:";
+    const options = { expires: REFRESH_TOKEN_DAYS, sameSite: "strict" as const, secure };
+    Cookies.set(ACCESS_TOKEN_COOKIE, accessToken, options);
+    Cookies.set(REFRESH_TOKEN_COOKIE, refreshToken, options);
+  },
+  clear() {
+    Cookies.remove(ACCESS_TOKEN_COOKIE);
+    Cookies.remove(REFRESH_TOKEN_COOKIE);
+  },
+});
+
+// For server components and scripts, where there is no document.cookie
+export const memoryTokenStore = (initial: AuthTokens | null = null): TokenStore => {
+  let tokens = initial;
+  return {
+    get: () => tokens,
+    set: (next) => {
+      tokens = next;
+    },
+    clear: () => {
+      tokens = null;
+    },
+  };
+};
+
+// Seconds until the access token expires, or null when it can't be read
+export const accessTokenExpiresIn = (accessToken: string): number | null => {
+  try {
+    const payload = accessToken.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const { exp } = JSON.parse(atob(payload)) as { exp?: number };
+    return typeof exp === "number" ? exp - Date.now() / 1000 : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,441 @@
+// Shapes returned by the backend API (see GET /api/openapi.json). Dates arrive as
+// ISO 8601 strings; JSON list columns are already parsed into arrays.
+
+export type IsoDate = string;
+
+export type UserRole = "AU_PAIR" | "HOST_FAMILY" | "ADMIN";
+export type SignupRole = Exclude<UserRole, "ADMIN">;
+export type MatchStatus = "PENDING" | "APPROVED" | "REJECTED" | "EXPIRED";
+export type ShortlistStage = "SHORTLISTED" | "CONTACTED" | "INTERVIEWED" | "OFFER";
+export type DismissalType = "PASS" | "BLOCK";
+export type BookingStatus = "PENDING" | "APPROVED" | "REJECTED" | "COMPLETED" | "CANCELLED";
+export type DocumentStatus = "PENDING" | "VERIFIED" | "REJECTED";
+export type DocumentType = "ID" | "PASSPORT" | "VISA" | "PROFILE_PHOTO";
+export type EmailJobStatus = "PENDING" | "PROCESSING" | "SENT" | "FAILED";
+export type EmailDeliveryMode = "INSTANT" | "DIGEST" | "OFF";
+export type NotificationType =
+  | "MATCH_REQUEST"
+  | "MATCH_APPROVED"
+  | "MATCH_REJECTED"
+  | "BOOKING_CREATED"
+  | "BOOKING_STATUS_CHANGED"
+  | "DOCUMENT_VERIFIED"
+  | "DOCUMENT_REJECTED"
+  | "NEW_MESSAGE"
+  | "SAVED_SEARCH_RESULTS"
+  | "MUTUAL_MATCH"
+  | "MATCH_REMINDER"
+  | "MATCH_EXPIRED";
+export type MatchFactor = "language" | "country" | "age" | "availability" | "budget" | "distance";
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+// Routes select different subsets of the user, so only id is always present
+export interface User {
+  id: string;
+  email?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  isEmailVerified?: boolean;
+  pendingEmail?: string | null;
+  lastLogin?: IsoDate | null;
+  locale?: string;
+  twoFactorEnabled?: boolean;
+  createdAt?: IsoDate;
+  updatedAt?: IsoDate;
+  auPairProfile?: Partial<AuPairProfile> | null;
+  hostFamilyProfile?: Partial<HostFamilyProfile> | null;
+}
+
+export interface AuPairProfile {
+  id: string;
+  userId: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: IsoDate;
+  bio: string | null;
+  languages: string[];          // ISO 639-1 codes
+  skills: string[];
+  experience: string | null;
+  education: string | null;
+  videoUrl: string | null;
+  preferredCountries: string[]; // ISO 3166-1 alpha-2 codes
+  preferredRegions: string[];
+  preferredLocation: string | null;
+  preferredLatitude: number | null;
+  preferredLongitude: number | null;
+  maxDistanceKm: number | null;
+  hourlyRate: number | null;
+  currency: string;
+  availableFrom: IsoDate | null;
+  availableTo: IsoDate | null;
+  profilePhotoUrl: string | null;
+  completeness: number;         // Percentage, see ProfileCompleteness
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+}
+
+export interface HostFamilyProfile {
+  id: string;
+  userId: string;
+  familyName: string;
+  contactPersonName: string;
+  bio: string | null;
+  location: string;
+  country: string;
+  city: string | null;
+  region: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  numberOfChildren: number;
+  childrenAges: number[];
+  requirements: string | null;
+  preferredLanguages: string[];
+  maxBudget: number | null;
+  currency: string;
+  profilePhotoUrl: string | null;
+  completeness: number;
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+}
+
+export type Profile = AuPairProfile | HostFamilyProfile;
+
+export type ChecklistStatus = "complete" | "missing" | "pending" | "rejected";
+
+export interface ChecklistItem {
+  key: string;
+  label: string;
+  weight: number; // The weights of a role's items add up to 100
+  status: ChecklistStatus;
+}
+
+export interface ProfileCompleteness {
+  percentage: number;
+  hasProfile: boolean;
+  items: ChecklistItem[];
+  missing: ChecklistItem[]; // Heaviest first
+}
+
+export interface FactorScore {
+  factor: MatchFactor;
+  score: number;  // Raw sub-score, 0-100
+  weight: number;
+  points: number;
+  reason: string;
+}
+
+export interface MatchScoreBreakdown {
+  total: number;
+  configVersion: number;
+  factors: FactorScore[];
+}
+
+export interface Match {
+  id: string;
+  hostId: string;
+  auPairId: string;
+  matchScore: number;
+  scoreBreakdown: MatchScoreBreakdown | null;
+  configVersion: number | null;
+  status: MatchStatus;
+  initiatedBy: UserRole;
+  notes: string | null;
+  respondedAt: IsoDate | null;
+  expiresAt: IsoDate | null;
+  remindersSent: number;
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+  host?: User;
+  auPair?: User;
+}
+
+// A suggested user of the opposite role, with their profile and match score
+export interface PotentialMatch extends User {
+  matchScore: number;
+  scoreBreakdown: MatchScoreBreakdown;
+}
+
+export interface MatchesPage {
+  matches: PotentialMatch[];
+  nextCursor: string | null;
+}
+
+export interface MatchCriteria {
+  languages?: string[];
+  country?: string;
+  minAge?: number;
+  maxAge?: number;
+  availableFrom?: IsoDate;
+  availableTo?: IsoDate;
+  maxHourlyRate?: number;
+  minBudget?: number;
+  minChildren?: number;
+  maxChildren?: number;
+  verifiedOnly?: boolean;
+  near?: string;      // City name or "latitude,longitude"
+  radiusKm?: number;
+  minCompleteness?: number; // Less complete profiles are listed last,
+  hideIncomplete?: boolean; // or left out when this is set
+}
+
+// Saved criteria are stored resolved: near becomes a point
+export interface SavedMatchCriteria extends Omit<MatchCriteria, "near"> {
+  near?: { label: string; latitude: number; longitude: number };
+}
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  criteria: SavedMatchCriteria;
+  notifyOnNew: boolean;
+  lastCheckedAt: IsoDate;
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+}
+
+export interface MatchDismissal {
+  id: string;
+  userId: string;
+  targetUserId: string;
+  type: DismissalType;
+  createdAt: IsoDate;
+  targetUser?: User;
+}
+
+export interface ShortlistEntry {
+  id: string;
+  matchId: string;
+  hostId: string;
+  starred: boolean;
+  rank: number | null;
+  stage: ShortlistStage;
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+  match: Match;
+}
+
+export interface MatchNote {
+  id: string;
+  matchId: string;
+  authorId: string;
+  content: string;
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+}
+
+export interface Message {
+  id: string;
+  senderId: string;
+  receiverId: string;
+  content: string;
+  isRead: boolean;
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+  sender?: User;
+  receiver?: User;
+}
+
+export interface Conversation {
+  userId: string;
+  user: User;
+  lastMessage: Message;
+  unreadCount: number;
+}
+
+export interface Document {
+  id: string;
+  userId: string;
+  type: DocumentType;
+  status: DocumentStatus;
+  filename: string;
+  originalName: string;
+  url: string;
+  uploadedAt: IsoDate;
+  verifiedAt: IsoDate | null;
+  verifiedBy: string | null;
+  notes: string | null;
+  user?: User;
+}
+
+export interface Booking {
+  id: string;
+  auPairId: string;
+  hostId: string;
+  startDate: IsoDate;
+  endDate: IsoDate;
+  status: BookingStatus;
+  totalHours: number | null;
+  hourlyRate: number | null;
+  totalAmount: number | null;
+  currency: string;
+  notes: string | null;
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+  auPair?: User;
+  host?: User;
+}
+
+export interface BookedSlot {
+  id: string;
+  startDate: IsoDate;
+  endDate: IsoDate;
+  status: BookingStatus;
+}
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data: Record<string, string> | null; // Ids of the related match, booking, document or message
+  isRead: boolean;
+  readAt: IsoDate | null;
+  createdAt: IsoDate;
+}
+
+export interface NotificationPreferences {
+  messagesEmail: EmailDeliveryMode;
+  matchesEmail: EmailDeliveryMode;
+  bookingsEmail: Exclude<EmailDeliveryMode, "DIGEST">;
+  documentsEmail: Exclude<EmailDeliveryMode, "DIGEST">;
+  timeZone: string;
+  quietHoursStart: string | null; // "HH:MM" in timeZone
+  quietHoursEnd: string | null;
+  digestHour: number;
+}
+
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: IsoDate;
+  expiresAt: IsoDate;
+  createdAt: IsoDate;
+  current: boolean;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Password, two-factor and single sign-on logins all answer with this. When the account
+// uses two-factor authentication, challengeToken comes instead of the tokens.
+export interface LoginResponse extends MessageResponse, Partial<AuthTokens> {
+  user?: User;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+}
+
+export interface OidcCallbackResponse extends LoginResponse {
+  roleSelectionRequired?: boolean;
+  signupToken?: string;
+  email?: string;
+  name?: string | null;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface LanguageOption {
+  code: string;
+  name: string;
+  nativeName: string;
+}
+
+export interface CountryOption {
+  code: string;
+  name: string;
+}
+
+export type MatchingWeights = Record<MatchFactor, number>;
+
+export interface ScoringConfig {
+  version: number; // 0 is the built-in default
+  weights: MatchingWeights;
+  thresholds: Record<string, unknown>;
+}
+
+export interface MatchingConfig extends ScoringConfig {
+  id: string;
+  name: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  activatedAt: IsoDate | null;
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+}
+
+export interface EvaluationReport {
+  configVersion: number | null;
+  weights: MatchingWeights;
+  samples: number;
+  approved: number;
+  rejected: number;
+  threshold: number;
+  precision: number | null;
+  recall: number | null;
+  accuracy: number | null;
+  auc: number | null;
+  averagePrecision: number | null;
+  meanScore: { approved: number | null; rejected: number | null };
+  factors: { factor: MatchFactor; approved: number | null; rejected: number | null }[];
+}
+
+export interface MatchingEvaluation {
+  evaluation: EvaluationReport;
+  learned: {
+    weights: MatchingWeights | null;
+    coefficients: MatchingWeights;
+    intercept: number;
+    evaluation: EvaluationReport | null;
+  } | null;
+  learningError: string | null;
+}
+
+export interface EmailJob {
+  id: string;
+  to: string;
+  template: string;
+  data: string;
+  locale: string;
+  status: EmailJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: IsoDate;
+  lastError: string | null;
+  providerMessageId: string | null;
+  sentAt: IsoDate | null;
+  createdAt: IsoDate;
+  updatedAt: IsoDate;
+}
+
+export interface JobStatus {
+  name: string;
+  intervalMs: number;
+  running: boolean;
+  lastStartedAt: IsoDate | null;
+  lastFinishedAt: IsoDate | null;
+  lastError: string | null;
+}
+
+export interface Lockout {
+  identifier: string;
+  failures: number;
+  lockedUntil: IsoDate;
+}